@@ -0,0 +1,43 @@
+// Sliding-window rate limiter. Keeps the timestamps of recent requests per key, so the
+// limit applies to any window of `windowMs` rather than resetting at fixed boundaries.
+// State is process-local: each instance enforces its own limits.
+export class SlidingWindowRateLimiter {
+  constructor({ limit, windowMs }) {
+    this.limit = limit
+    this.windowMs = windowMs
+    this.hits = new Map() // key -> request timestamps, oldest first
+  }
+
+  // Requests still available for a key, and when the next one frees up if none are
+  check(key, now = Date.now()) {
+    const timestamps = this.recentHits(key, now)
+    const remaining = Math.max(0, this.limit - timestamps.length)
+    const retryAfterMs = remaining > 0 ? 0 : timestamps[timestamps.length - this.limit] + this.windowMs - now
+
+    return { limit: this.limit, remaining, retryAfterMs }
+  }
+
+  record(key, now = Date.now()) {
+    const timestamps = this.recentHits(key, now)
+    timestamps.push(now)
+    this.hits.set(key, timestamps)
+  }
+
+  // Drop keys with no requests in the current window, e.g. expired or revoked sessions
+  prune(now = Date.now()) {
+    for (const key of this.hits.keys()) {
+      if (this.recentHits(key, now).length === 0) {
+        this.hits.delete(key)
+      }
+    }
+  }
+
+  recentHits(key, now) {
+    const timestamps = this.hits.get(key) || []
+    const cutoff = now - this.windowMs
+    const firstRecent = timestamps.findIndex(timestamp => timestamp > cutoff)
+    const recent = firstRecent === -1 ? [] : timestamps.slice(firstRecent)
+    this.hits.set(key, recent)
+    return recent
+  }
+}
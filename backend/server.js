@@ -3,6 +3,11 @@ import cors from 'cors'
 import axios from 'axios'
 import dotenv from 'dotenv'
 import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { createSessionStore } from './sessionStore.js'
+import { SlidingWindowRateLimiter } from './rateLimiter.js'
+import { createTokenVault } from './tokenVault.js'
 
 dotenv.config()
 
@@ -14,10 +19,45 @@ let dwollaClientToken = null
 let dwollaTokenExpiry = null
 
 // User session management
-const userSessions = new Map() // sessionId -> { extensionId, created, lastUsed, requestCount }
+const SESSION_TTL_SECONDS = 24 * 60 * 60
+const SESSION_CLEANUP_INTERVAL = 10 * 60 * 1000
+const sessionStore = await createSessionStore({
+  type: process.env.SESSION_STORE || 'memory',
+  file: process.env.SESSION_DB_FILE || './data/sessions.db'
+})
+
+// HubSpot refresh tokens, encrypted in the session store
+const tokenVault = createTokenVault(sessionStore, process.env.TOKEN_ENCRYPTION_KEY)
+
+// Proxy rate limits over a sliding one-hour window. Every agent runs the same extension,
+// so the extension ID limit caps the combined Dwolla usage of all sessions.
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000
+const sessionRateLimiter = new SlidingWindowRateLimiter({
+  limit: parseInt(process.env.RATE_LIMIT_PER_SESSION, 10) || 100,
+  windowMs: RATE_LIMIT_WINDOW_MS
+})
+// Across all of one HubSpot user's sessions, so a new session does not reset the budget
+const userRateLimiter = new SlidingWindowRateLimiter({
+  limit: parseInt(process.env.RATE_LIMIT_PER_USER, 10) || 200,
+  windowMs: RATE_LIMIT_WINDOW_MS
+})
+const extensionRateLimiter = new SlidingWindowRateLimiter({
+  limit: parseInt(process.env.RATE_LIMIT_PER_EXTENSION, 10) || 1000,
+  windowMs: RATE_LIMIT_WINDOW_MS
+})
+
+// Dwolla webhook events, persisted so subscribers can catch up after a restart
+const WEBHOOK_EVENTS_FILE = process.env.WEBHOOK_EVENTS_FILE || './data/dwolla-webhook-events.json'
+const WEBHOOK_EVENTS_MAX = 1000
+const webhookEvents = loadWebhookEvents()
 
 // Middleware
-app.use(express.json())
+app.use(express.json({
+  // Keep the raw body so webhook signatures can be checked against the exact bytes sent
+  verify: (req, res, buf) => {
+    req.rawBody = buf
+  }
+}))
 app.use(cors({
   origin: (origin, callback) => {
     // Allow requests from Chrome extensions
@@ -26,7 +66,9 @@ app.use(cors({
     } else {
       callback(new Error('Not allowed by CORS'))
     }
-  }
+  },
+  // Let the extension read its remaining budget
+  exposedHeaders: ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining']
 }))
 
 // Generate session token
@@ -34,6 +76,14 @@ function generateSessionToken() {
   return crypto.randomBytes(32).toString('hex')
 }
 
+// Optionally validate extension ID against whitelist
+function isAllowedExtension(extensionId) {
+  if (!process.env.ALLOWED_EXTENSION_IDS) {
+    return true
+  }
+  return process.env.ALLOWED_EXTENSION_IDS.split(',').includes(extensionId)
+}
+
 // Validate API key middleware
 const validateApiKey = (req, res, next) => {
   const apiKey = req.headers['x-api-key']
@@ -43,19 +93,80 @@ const validateApiKey = (req, res, next) => {
     return res.status(401).json({ error: 'Unauthorized' })
   }
   
-  // Optionally validate extension ID against whitelist
-  if (process.env.ALLOWED_EXTENSION_IDS) {
-    const allowedIds = process.env.ALLOWED_EXTENSION_IDS.split(',')
-    if (!allowedIds.includes(extensionId)) {
-      return res.status(403).json({ error: 'Extension not allowed' })
+  if (!isAllowedExtension(extensionId)) {
+    return res.status(403).json({ error: 'Extension not allowed' })
+  }
+  
+  next()
+}
+
+// Admin operations need ADMIN_API_KEY, which stays on the server. API_KEY is in every extension
+// bundle, so an admin key equal to it is treated as not configured.
+const validateAdminKey = (req, res, next) => {
+  const adminKey = process.env.ADMIN_API_KEY
+  
+  if (!adminKey || adminKey === process.env.API_KEY) {
+    return res.status(503).json({ error: 'Admin API not configured' })
+  }
+  
+  if (req.headers['x-admin-key'] !== adminKey) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+  
+  next()
+}
+
+// Require a signed-in HubSpot user, proven by a HubSpot access token in the Authorization header.
+// The API key ships inside the extension bundle, so it cannot tell agents apart; the token can.
+const validateHubSpotUser = async (req, res, next) => {
+  const extensionId = req.headers['x-extension-id']
+  const accessToken = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+  
+  if (!extensionId) {
+    return res.status(400).json({ error: 'Extension ID required' })
+  }
+  
+  if (!isAllowedExtension(extensionId)) {
+    return res.status(403).json({ error: 'Extension not allowed' })
+  }
+  
+  if (!accessToken) {
+    return res.status(401).json({ error: 'HubSpot access token required' })
+  }
+  
+  try {
+    const tokenInfo = await getHubSpotTokenInfo(accessToken)
+    
+    // Tokens issued to other HubSpot apps, or for other portals, do not identify one of our agents
+    if (process.env.HUBSPOT_APP_ID && String(tokenInfo.app_id) !== process.env.HUBSPOT_APP_ID) {
+      return res.status(403).json({ error: 'HubSpot token issued to another app' })
+    }
+    if (process.env.ALLOWED_HUB_IDS && !process.env.ALLOWED_HUB_IDS.split(',').includes(String(tokenInfo.hub_id))) {
+      return res.status(403).json({ error: 'HubSpot account not allowed' })
+    }
+    
+    req.hubspotUser = {
+      email: tokenInfo.user,
+      userId: String(tokenInfo.user_id),
+      hubId: String(tokenInfo.hub_id)
     }
+  } catch (error) {
+    // HubSpot answers 404 for unknown or expired tokens
+    if (error.response?.status === 404 || error.response?.status === 400) {
+      return res.status(401).json({ error: 'Invalid HubSpot access token' })
+    }
+    console.error('HubSpot token verification error:', error.response?.data || error.message)
+    return res.status(502).json({ error: 'Unable to verify HubSpot user' })
   }
   
   next()
 }
 
+// Who an audit log line is about
+const describeSession = (session) => `${session.userEmail} (hub ${session.hubId})`
+
 // Session management middleware for proxy endpoints
-const validateSession = (req, res, next) => {
+const validateSession = async (req, res, next) => {
   const sessionToken = req.headers['x-session-token']
   const extensionId = req.headers['x-extension-id']
   
@@ -63,41 +174,78 @@ const validateSession = (req, res, next) => {
     return res.status(401).json({ error: 'Missing session credentials' })
   }
   
-  const session = userSessions.get(sessionToken)
-  
-  if (!session) {
-    return res.status(401).json({ error: 'Invalid session' })
-  }
-  
-  // Check if session matches extension ID
-  if (session.extensionId !== extensionId) {
-    return res.status(403).json({ error: 'Session mismatch' })
+  try {
+    const session = await sessionStore.get(sessionToken)
+    
+    if (!session) {
+      return res.status(401).json({ error: 'Invalid session' })
+    }
+    
+    // Check if session matches extension ID
+    if (session.extensionId !== extensionId) {
+      return res.status(403).json({ error: 'Session mismatch' })
+    }
+    
+    // Expired sessions are also swept periodically; this catches them between sweeps
+    if (session.expiresAt <= Date.now()) {
+      await sessionStore.delete(sessionToken)
+      return res.status(401).json({ error: 'Session expired' })
+    }
+    
+    // Sessions created before sessions required a HubSpot user have no identity to limit or audit;
+    // ending them makes the extension create a new one for the signed-in user
+    if (!session.userEmail) {
+      await sessionStore.delete(sessionToken)
+      return res.status(401).json({ error: 'Session has no verified user' })
+    }
+    
+    // Update last used time and request count
+    session.lastUsed = Date.now()
+    session.requestCount++
+    await sessionStore.update(sessionToken, {
+      lastUsed: session.lastUsed,
+      requestCount: session.requestCount
+    })
+    
+    req.session = session
+    req.sessionToken = sessionToken
+  } catch (error) {
+    console.error('Session store error:', error.message)
+    return res.status(503).json({ error: 'Session store unavailable' })
   }
   
-  // Check session expiry (24 hours)
-  const sessionAge = Date.now() - session.created
-  if (sessionAge > 24 * 60 * 60 * 1000) {
-    userSessions.delete(sessionToken)
-    return res.status(401).json({ error: 'Session expired' })
-  }
+  next()
+}
+
+// Rate limit middleware for proxy endpoints that call Dwolla; runs after validateSession.
+// A request must fit within the session's, the user's and the extension ID's window.
+const rateLimitSession = (req, res, next) => {
+  const limits = [
+    { limiter: sessionRateLimiter, key: req.sessionToken },
+    { limiter: userRateLimiter, key: `${req.session.hubId}:${req.session.userId}` },
+    { limiter: extensionRateLimiter, key: req.session.extensionId }
+  ]
+  const checks = limits.map(({ limiter, key }) => limiter.check(key))
+  const tightest = checks.reduce((min, check) => check.remaining < min.remaining ? check : min)
   
-  // Update last used time and request count
-  session.lastUsed = Date.now()
-  session.requestCount++
+  res.set('X-RateLimit-Limit', String(tightest.limit))
   
-  // Check rate limit (100 requests per hour per session)
-  const hourAgo = Date.now() - 60 * 60 * 1000
-  if (session.requestCount > 100 && session.created > hourAgo) {
+  const exhausted = checks.filter(check => check.remaining === 0)
+  if (exhausted.length > 0) {
+    const retryAfterMs = Math.max(...exhausted.map(check => check.retryAfterMs))
+    res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)))
+    res.set('X-RateLimit-Remaining', '0')
     return res.status(429).json({ error: 'Rate limit exceeded' })
   }
   
-  req.session = session
+  limits.forEach(({ limiter, key }) => limiter.record(key))
+  res.set('X-RateLimit-Remaining', String(tightest.remaining - 1))
   next()
 }
 
 // OAuth token exchange endpoint
 app.post('/api/oauth/exchange', validateApiKey, async (req, res) => {
-  const { code, provider, redirect_uri } = req.body
+  const { code, provider, redirect_uri, code_verifier } = req.body
   const extensionId = req.headers['x-extension-id']
   
   // Enhanced logging for debugging
@@ -105,6 +253,7 @@ app.post('/api/oauth/exchange', validateApiKey, async (req, res) => {
     provider,
     hasCode: !!code,
     codeLength: code?.length,
+    hasCodeVerifier: !!code_verifier,
     redirect_uri,
     extensionId,
     expectedExtensionId: process.env.ALLOWED_EXTENSION_IDS,
@@ -115,12 +264,18 @@ app.post('/api/oauth/exchange', validateApiKey, async (req, res) => {
     return res.status(400).json({ error: 'Missing required parameters' })
   }
   
+  // HubSpot codes are requested with a PKCE challenge, so a code without its verifier
+  // (RFC 7636: 43-128 unreserved characters) cannot be redeemed
+  if (provider === 'hubspot' && !/^[A-Za-z0-9\-._~]{43,128}$/.test(code_verifier || '')) {
+    return res.status(400).json({ error: 'Missing or invalid code_verifier' })
+  }
+  
   try {
     let tokenResponse
     
     if (provider === 'hubspot') {
       console.log(`Attempting HubSpot token exchange with redirect_uri: ${redirect_uri}`)
-      tokenResponse = await exchangeHubSpotCode(code, redirect_uri)
+      tokenResponse = await exchangeHubSpotCode(code, redirect_uri, code_verifier)
     } else if (provider === 'dwolla') {
       console.log(`Attempting Dwolla token exchange with redirect_uri: ${redirect_uri}`)
       tokenResponse = await exchangeDwollaCode(code, redirect_uri)
@@ -130,15 +285,16 @@ app.post('/api/oauth/exchange', validateApiKey, async (req, res) => {
     
     console.log(`Token exchange successful for ${provider}`)
     
-    // Never send refresh token to client in production
-    // Store it securely on server if needed
+    // Never send refresh token to client; the vault keeps it and the extension
+    // gets a handle to mint new access tokens with
     const response = {
       access_token: tokenResponse.access_token,
       expires_in: tokenResponse.expires_in || 3600
     }
     
-    // In production, you might want to store refresh tokens in a secure database
-    // associated with the user/extension for later use
+    if (provider === 'hubspot' && tokenVault && extensionId && tokenResponse.refresh_token) {
+      response.refresh_handle = await tokenVault.save(extensionId, tokenResponse.refresh_token)
+    }
     
     res.json(response)
   } catch (error) {
@@ -198,14 +354,79 @@ app.post('/api/oauth/refresh', validateApiKey, async (req, res) => {
   }
 })
 
+// Mint a HubSpot access token from the refresh token held for a handle
+app.post('/api/oauth/token', validateApiKey, async (req, res) => {
+  const { refresh_handle } = req.body
+  const extensionId = req.headers['x-extension-id']
+  
+  if (!refresh_handle || !extensionId) {
+    return res.status(400).json({ error: 'Missing required parameters' })
+  }
+  
+  if (!tokenVault) {
+    return res.status(503).json({ error: 'Token vault not configured' })
+  }
+  
+  try {
+    const refreshToken = await tokenVault.get(refresh_handle, extensionId)
+    if (!refreshToken) {
+      return res.status(401).json({ error: 'Unknown or expired refresh handle' })
+    }
+    
+    const tokenResponse = await refreshHubSpotToken(refreshToken)
+    await tokenVault.renew(refresh_handle, extensionId, tokenResponse.refresh_token || refreshToken)
+    
+    console.log(`HubSpot access token minted for extension ${extensionId}`)
+    
+    res.json({
+      access_token: tokenResponse.access_token,
+      expires_in: tokenResponse.expires_in || 3600
+    })
+  } catch (error) {
+    console.error('HubSpot access token error:', error.response?.data || error.message)
+    
+    // HubSpot rejects refresh tokens that were revoked or uninstalled; drop it so the agent signs in again
+    if (error.response?.status === 400) {
+      await tokenVault.revoke(refresh_handle).catch(() => {})
+      return res.status(401).json({ error: 'Refresh token revoked' })
+    }
+    
+    res.status(500).json({ error: 'Token refresh failed' })
+  }
+})
+
+// Forget the refresh token behind a handle, e.g. when the agent logs out
+app.delete('/api/oauth/token', validateApiKey, async (req, res) => {
+  const { refresh_handle } = req.body
+  const extensionId = req.headers['x-extension-id']
+  
+  if (!refresh_handle || !extensionId) {
+    return res.status(400).json({ error: 'Missing required parameters' })
+  }
+  
+  if (!tokenVault) {
+    return res.json({ revoked: 0 })
+  }
+  
+  try {
+    const owned = await tokenVault.get(refresh_handle, extensionId)
+    const revoked = owned ? await tokenVault.revoke(refresh_handle) : 0
+    res.json({ revoked })
+  } catch (error) {
+    console.error('Refresh token revocation error:', error.message)
+    res.status(503).json({ error: 'Session store unavailable' })
+  }
+})
+
 // HubSpot OAuth functions
-async function exchangeHubSpotCode(code, redirect_uri) {
+async function exchangeHubSpotCode(code, redirect_uri, code_verifier) {
   const payload = {
     grant_type: 'authorization_code',
     client_id: process.env.HUBSPOT_CLIENT_ID,
     client_secret: process.env.HUBSPOT_CLIENT_SECRET,
     redirect_uri: redirect_uri,
-    code: code
+    code: code,
+    code_verifier: code_verifier
   }
   
   console.log('HubSpot token exchange payload:', {
@@ -213,6 +434,7 @@ async function exchangeHubSpotCode(code, redirect_uri) {
     client_id: payload.client_id,
     redirect_uri: payload.redirect_uri,
     hasClientSecret: !!payload.client_secret,
+    hasCodeVerifier: !!payload.code_verifier,
     codeLength: code?.length
   })
   
@@ -228,6 +450,14 @@ async function exchangeHubSpotCode(code, redirect_uri) {
   return response.data
 }
 
+async function getHubSpotTokenInfo(accessToken) {
+  const response = await axios.get(
+    `https://api.hubapi.com/oauth/v1/access-tokens/${encodeURIComponent(accessToken)}`
+  )
+  
+  return response.data
+}
+
 async function refreshHubSpotToken(refresh_token) {
   const payload = {
     grant_type: 'refresh_token',
@@ -355,49 +585,107 @@ async function refreshDwollaToken(refresh_token) {
 }
 
 // Session creation endpoint
-app.post('/api/session/create', validateApiKey, (req, res) => {
+app.post('/api/session/create', validateHubSpotUser, async (req, res) => {
   const extensionId = req.headers['x-extension-id']
-  
-  if (!extensionId) {
-    return res.status(400).json({ error: 'Extension ID required' })
-  }
+  const { email, userId, hubId } = req.hubspotUser
   
   const sessionToken = generateSessionToken()
   const session = {
     extensionId,
+    userEmail: email,
+    userId,
+    hubId,
     created: Date.now(),
     lastUsed: Date.now(),
-    requestCount: 0
+    requestCount: 0,
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000
   }
   
-  userSessions.set(sessionToken, session)
-  
-  // Clean up old sessions periodically
-  if (userSessions.size > 1000) {
-    const cutoff = Date.now() - 24 * 60 * 60 * 1000
-    for (const [token, session] of userSessions.entries()) {
-      if (session.lastUsed < cutoff) {
-        userSessions.delete(token)
-      }
-    }
+  try {
+    await sessionStore.set(sessionToken, session)
+  } catch (error) {
+    console.error('Session store error:', error.message)
+    return res.status(503).json({ error: 'Session store unavailable' })
   }
   
-  console.log(`Session created for extension ${extensionId}`)
+  console.log(`Session created for ${describeSession(session)} on extension ${extensionId}`)
   
   res.json({
     sessionToken,
-    expiresIn: 24 * 60 * 60 // 24 hours in seconds
+    expiresIn: SESSION_TTL_SECONDS
   })
 })
 
+// End the calling session, e.g. when the agent logs out
+app.delete('/api/session', validateSession, async (req, res) => {
+  try {
+    await sessionStore.delete(req.sessionToken)
+    console.log(`Session ended for ${describeSession(req.session)}`)
+    res.json({ revoked: 1 })
+  } catch (error) {
+    console.error('Session revocation error:', error.message)
+    res.status(503).json({ error: 'Session store unavailable' })
+  }
+})
+
+// Revoke a leaked session token, every session of a HubSpot user, or every session of an extension ID
+app.post('/api/session/revoke', validateAdminKey, async (req, res) => {
+  const { sessionToken, userEmail, extensionId } = req.body || {}
+  
+  if (!sessionToken && !userEmail && !extensionId) {
+    return res.status(400).json({ error: 'sessionToken, userEmail or extensionId required' })
+  }
+  
+  try {
+    let revoked
+    let target
+    if (sessionToken) {
+      revoked = await sessionStore.delete(sessionToken)
+      target = 'by token'
+    } else if (userEmail) {
+      revoked = await sessionStore.deleteByUserEmail(userEmail)
+      target = `for ${userEmail}`
+    } else {
+      revoked = await sessionStore.deleteByExtensionId(extensionId)
+      target = `for extension ${extensionId}`
+    }
+    
+    console.log(`Revoked ${revoked} session(s) ${target}`)
+    res.json({ revoked })
+  } catch (error) {
+    console.error('Session revocation error:', error.message)
+    res.status(503).json({ error: 'Session store unavailable' })
+  }
+})
+
+// Sweep expired sessions, unused refresh tokens and idle rate limit windows so none grows without bound
+setInterval(async () => {
+  sessionRateLimiter.prune()
+  userRateLimiter.prune()
+  extensionRateLimiter.prune()
+  try {
+    const deleted = await sessionStore.deleteExpired()
+    if (deleted > 0) {
+      console.log(`Removed ${deleted} expired session(s)`)
+    }
+    const deletedTokens = await tokenVault?.deleteExpired() || 0
+    if (deletedTokens > 0) {
+      console.log(`Removed ${deletedTokens} unused refresh token(s)`)
+    }
+  } catch (error) {
+    console.error('Failed to remove expired sessions:', error.message)
+  }
+}, SESSION_CLEANUP_INTERVAL).unref()
+
 // Dwolla proxy endpoints
-app.post('/api/proxy/dwolla/customers/search', validateSession, async (req, res) => {
+app.post('/api/proxy/dwolla/customers/search', validateSession, rateLimitSession, async (req, res) => {
   try {
     const token = await getDwollaClientToken()
-    const { email, firstName, lastName, businessName, limit = 25, offset = 0 } = req.body
+    const { search, email, firstName, lastName, businessName, limit = 25, offset = 0 } = req.body
     
     // Build search parameters
     const params = new URLSearchParams()
+    if (search) params.append('search', search)
     if (email) params.append('email', email)
     if (firstName) params.append('firstName', firstName)
     if (lastName) params.append('lastName', lastName)
@@ -409,7 +697,7 @@ app.post('/api/proxy/dwolla/customers/search', validateSession, async (req, res)
       ? 'https://api.dwolla.com'
       : 'https://api-sandbox.dwolla.com'
     
-    console.log(`Dwolla proxy search for session ${req.session.extensionId}:`, { email, firstName, lastName, businessName })
+    console.log(`Dwolla proxy search for ${describeSession(req.session)}:`, { search, email, firstName, lastName, businessName, offset })
     
     const response = await axios.get(
       `${apiUrl}/customers?${params.toString()}`,
@@ -429,6 +717,7 @@ app.post('/api/proxy/dwolla/customers/search', validateSession, async (req, res)
         lastName: customer.lastName,
         email: customer.email,
         businessName: customer.businessName,
+        phone: customer.phone,
         type: customer.type,
         status: customer.status,
         created: customer.created,
@@ -446,7 +735,7 @@ app.post('/api/proxy/dwolla/customers/search', validateSession, async (req, res)
   }
 })
 
-app.get('/api/proxy/dwolla/customers/:id', validateSession, async (req, res) => {
+app.get('/api/proxy/dwolla/customers/:id', validateSession, rateLimitSession, async (req, res) => {
   try {
     const token = await getDwollaClientToken()
     const { id } = req.params
@@ -455,7 +744,7 @@ app.get('/api/proxy/dwolla/customers/:id', validateSession, async (req, res) =>
       ? 'https://api.dwolla.com'
       : 'https://api-sandbox.dwolla.com'
     
-    console.log(`Dwolla proxy get customer ${id} for session ${req.session.extensionId}`)
+    console.log(`Dwolla proxy get customer ${id} for ${describeSession(req.session)}`)
     
     const response = await axios.get(
       `${apiUrl}/customers/${id}`,
@@ -474,6 +763,7 @@ app.get('/api/proxy/dwolla/customers/:id', validateSession, async (req, res) =>
       lastName: response.data.lastName,
       email: response.data.email,
       businessName: response.data.businessName,
+      phone: response.data.phone,
       type: response.data.type,
       status: response.data.status,
       created: response.data.created,
@@ -494,7 +784,7 @@ app.get('/api/proxy/dwolla/customers/:id', validateSession, async (req, res) =>
   }
 })
 
-app.get('/api/proxy/dwolla/transfers/:id', validateSession, async (req, res) => {
+app.get('/api/proxy/dwolla/transfers/:id', validateSession, rateLimitSession, async (req, res) => {
   try {
     const token = await getDwollaClientToken()
     const { id } = req.params
@@ -503,17 +793,45 @@ app.get('/api/proxy/dwolla/transfers/:id', validateSession, async (req, res) =>
       ? 'https://api.dwolla.com'
       : 'https://api-sandbox.dwolla.com'
     
-    console.log(`Dwolla proxy get transfer ${id} for session ${req.session.extensionId}`)
+    console.log(`Dwolla proxy get transfer ${id} for ${describeSession(req.session)}`)
     
-    const response = await axios.get(
-      `${apiUrl}/transfers/${id}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.dwolla.v1.hal+json'
-        }
+    const headers = {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.dwolla.v1.hal+json'
+    }
+    
+    const response = await axios.get(`${apiUrl}/transfers/${id}`, { headers })
+    const links = response.data._links || {}
+    
+    // Resolve linked resources support needs to explain a transfer; a missing link
+    // or a failed lookup just leaves that section empty
+    const fetchLink = async (link) => {
+      if (!link?.href) return null
+      try {
+        const linked = await axios.get(link.href, { headers })
+        return linked.data
+      } catch (error) {
+        console.error(`Dwolla proxy transfer link lookup failed for ${link.href}:`, error.response?.data || error.message)
+        return null
       }
-    )
+    }
+    
+    const [failure, fees, sourceFundingSource, destinationFundingSource] = await Promise.all([
+      fetchLink(links.failure),
+      fetchLink(links.fees),
+      fetchLink(links['source-funding-source']),
+      fetchLink(links['destination-funding-source'])
+    ])
+    
+    const sanitizeFundingSource = (source) => source && {
+      id: source.id,
+      status: source.status,
+      type: source.type,
+      bankAccountType: source.bankAccountType,
+      name: source.name,
+      bankName: source.bankName,
+      removed: source.removed
+    }
     
     // Sanitize response
     const sanitized = {
@@ -524,6 +842,20 @@ app.get('/api/proxy/dwolla/transfers/:id', validateSession, async (req, res) =>
       metadata: response.data.metadata,
       clearing: response.data.clearing,
       correlationId: response.data.correlationId,
+      individualAchId: response.data.individualAchId,
+      failure: failure && {
+        code: failure.code,
+        description: failure.description,
+        explanation: failure.explanation
+      },
+      fees: fees?._embedded?.fees?.map(fee => ({
+        id: fee.id,
+        status: fee.status,
+        amount: fee.amount,
+        created: fee.created
+      })) || [],
+      sourceFundingSource: sanitizeFundingSource(sourceFundingSource),
+      destinationFundingSource: sanitizeFundingSource(destinationFundingSource),
       _links: response.data._links
     }
     
@@ -538,7 +870,7 @@ app.get('/api/proxy/dwolla/transfers/:id', validateSession, async (req, res) =>
 })
 
 // Get customer transfers
-app.get('/api/proxy/dwolla/customers/:id/transfers', validateSession, async (req, res) => {
+app.get('/api/proxy/dwolla/customers/:id/transfers', validateSession, rateLimitSession, async (req, res) => {
   try {
     const token = await getDwollaClientToken()
     const { id } = req.params
@@ -548,7 +880,7 @@ app.get('/api/proxy/dwolla/customers/:id/transfers', validateSession, async (req
       ? 'https://api.dwolla.com'
       : 'https://api-sandbox.dwolla.com'
     
-    console.log(`Dwolla proxy get transfers for customer ${id} for session ${req.session.extensionId}`)
+    console.log(`Dwolla proxy get transfers for customer ${id} for ${describeSession(req.session)}`)
     
     const response = await axios.get(
       `${apiUrl}/customers/${id}/transfers?limit=${limit}&offset=${offset}`,
@@ -586,7 +918,7 @@ app.get('/api/proxy/dwolla/customers/:id/transfers', validateSession, async (req
 })
 
 // Get customer funding sources
-app.get('/api/proxy/dwolla/customers/:id/funding-sources', validateSession, async (req, res) => {
+app.get('/api/proxy/dwolla/customers/:id/funding-sources', validateSession, rateLimitSession, async (req, res) => {
   try {
     const token = await getDwollaClientToken()
     const { id } = req.params
@@ -595,7 +927,7 @@ app.get('/api/proxy/dwolla/customers/:id/funding-sources', validateSession, asyn
       ? 'https://api.dwolla.com'
       : 'https://api-sandbox.dwolla.com'
     
-    console.log(`Dwolla proxy get funding sources for customer ${id} for session ${req.session.extensionId}`)
+    console.log(`Dwolla proxy get funding sources for customer ${id} for ${describeSession(req.session)}`)
     
     const response = await axios.get(
       `${apiUrl}/customers/${id}/funding-sources`,
@@ -615,6 +947,7 @@ app.get('/api/proxy/dwolla/customers/:id/funding-sources', validateSession, asyn
         type: source.type,
         bankAccountType: source.bankAccountType,
         name: source.name,
+        bankName: source.bankName,
         created: source.created,
         balance: source.balance,
         removed: source.removed,
@@ -633,6 +966,182 @@ app.get('/api/proxy/dwolla/customers/:id/funding-sources', validateSession, asyn
   }
 })
 
+// Dwolla only exposes account-wide events, so this scans the most recent pages
+// and keeps the ones that reference the customer
+const EVENTS_PAGE_SIZE = 200
+const EVENTS_MAX_PAGES = 5
+
+// Get events for a customer
+app.get('/api/proxy/dwolla/customers/:id/events', validateSession, rateLimitSession, async (req, res) => {
+  try {
+    const token = await getDwollaClientToken()
+    const { id } = req.params
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, EVENTS_PAGE_SIZE)
+    
+    const apiUrl = process.env.DWOLLA_ENVIRONMENT === 'production'
+      ? 'https://api.dwolla.com'
+      : 'https://api-sandbox.dwolla.com'
+    
+    console.log(`Dwolla proxy get events for customer ${id} for ${describeSession(req.session)}`)
+    
+    const customerHref = `${apiUrl}/customers/${id}`
+    const events = []
+    let scannedAll = false
+    
+    for (let page = 0; page < EVENTS_MAX_PAGES && events.length < limit; page++) {
+      const response = await axios.get(
+        `${apiUrl}/events?limit=${EVENTS_PAGE_SIZE}&offset=${page * EVENTS_PAGE_SIZE}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'application/vnd.dwolla.v1.hal+json'
+          }
+        }
+      )
+      
+      const pageEvents = response.data._embedded?.events || []
+      events.push(...pageEvents.filter(event =>
+        event.resourceId === id || event._links?.customer?.href === customerHref
+      ))
+      
+      if (pageEvents.length < EVENTS_PAGE_SIZE) {
+        scannedAll = true
+        break
+      }
+    }
+    
+    // Sanitize response - keep only what the timeline needs
+    res.json({
+      _embedded: {
+        events: events.slice(0, limit).map(event => ({
+          id: event.id,
+          created: event.created,
+          topic: event.topic,
+          resourceId: event.resourceId
+        }))
+      },
+      total: Math.min(events.length, limit),
+      truncated: !scannedAll
+    })
+  } catch (error) {
+    console.error('Dwolla proxy get customer events error:', error.response?.data || error.message)
+    res.status(error.response?.status || 500).json({ 
+      error: 'Failed to get customer events',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Unable to retrieve events'
+    })
+  }
+})
+
+function loadWebhookEvents() {
+  try {
+    return JSON.parse(fs.readFileSync(WEBHOOK_EVENTS_FILE, 'utf8'))
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('Failed to load webhook events:', error.message)
+    }
+    return []
+  }
+}
+
+async function persistWebhookEvents() {
+  try {
+    await fs.promises.mkdir(path.dirname(WEBHOOK_EVENTS_FILE), { recursive: true })
+    await fs.promises.writeFile(WEBHOOK_EVENTS_FILE, JSON.stringify(webhookEvents))
+  } catch (error) {
+    console.error('Failed to persist webhook events:', error.message)
+  }
+}
+
+// Dwolla signs the raw request body with the webhook subscription secret (HMAC-SHA256, hex)
+function isValidDwollaSignature(rawBody, signature) {
+  // Anything but 64 hex characters would give a buffer of another length, which timingSafeEqual throws on
+  if (!rawBody || typeof signature !== 'string' || !/^[0-9a-f]{64}$/.test(signature)) {
+    return false
+  }
+  
+  try {
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', process.env.DWOLLA_WEBHOOK_SECRET).update(rawBody).digest('hex')
+    )
+    const received = Buffer.from(signature)
+    
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+  } catch (error) {
+    console.error('Dwolla webhook signature check failed:', error.message)
+    return false
+  }
+}
+
+// Customer events link the customer directly; customer lifecycle events are about the customer itself
+function getEventCustomerId(event) {
+  const customerHref = event._links?.customer?.href
+  if (customerHref) {
+    return customerHref.split('/').pop()
+  }
+  if (event._links?.resource?.href?.includes('/customers/')) {
+    return event.resourceId
+  }
+  return null
+}
+
+// Dwolla webhook receiver
+app.post('/api/webhooks/dwolla', async (req, res) => {
+  if (!process.env.DWOLLA_WEBHOOK_SECRET) {
+    console.error('Dwolla webhook received but DWOLLA_WEBHOOK_SECRET is not configured')
+    return res.status(503).json({ error: 'Webhooks not configured' })
+  }
+  
+  if (!isValidDwollaSignature(req.rawBody, req.headers['x-request-signature-sha-256'])) {
+    console.warn('Rejected Dwolla webhook with invalid signature')
+    return res.status(401).json({ error: 'Invalid signature' })
+  }
+  
+  const event = req.body
+  if (!event?.id || !event.topic) {
+    return res.status(400).json({ error: 'Invalid event' })
+  }
+  
+  // Dwolla retries deliveries until it gets a 2xx, so the same event can arrive more than once
+  if (webhookEvents.some(existing => existing.id === event.id)) {
+    return res.status(200).json({ received: true })
+  }
+  
+  // Sequences are timestamps, kept strictly increasing, so they keep rising past the cursors
+  // clients hold even if the events file is lost, e.g. on a redeploy without a volume
+  const lastSequence = webhookEvents.length > 0 ? webhookEvents[webhookEvents.length - 1].sequence : 0
+  webhookEvents.push({
+    sequence: Math.max(lastSequence + 1, Date.now()),
+    id: event.id,
+    topic: event.topic,
+    resourceId: event.resourceId,
+    customerId: getEventCustomerId(event),
+    created: event.created || event.timestamp,
+    receivedAt: new Date().toISOString()
+  })
+  webhookEvents.splice(0, Math.max(0, webhookEvents.length - WEBHOOK_EVENTS_MAX))
+  
+  console.log(`Dwolla webhook received: ${event.topic} for ${event.resourceId}`)
+  
+  await persistWebhookEvents()
+  res.status(200).json({ received: true })
+})
+
+// Poll for webhook events received after a cursor. Not rate limited, as it never calls Dwolla.
+app.get('/api/proxy/dwolla/webhook-events', validateSession, (req, res) => {
+  const after = parseInt(req.query.after, 10) || 0
+  const customerIds = req.query.customerIds ? req.query.customerIds.split(',') : null
+  
+  const events = webhookEvents.filter(event =>
+    event.sequence > after && (!customerIds || customerIds.includes(event.customerId))
+  )
+  
+  res.json({
+    _embedded: { events },
+    // The cursor moves past filtered-out events too, so they are not scanned again
+    cursor: webhookEvents.length > 0 ? webhookEvents[webhookEvents.length - 1].sequence : after
+  })
+})
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
@@ -652,12 +1161,19 @@ app.get('/', (req, res) => {
     endpoints: [
       'POST /api/oauth/exchange',
       'POST /api/oauth/refresh', 
+      'POST /api/oauth/token',
+      'DELETE /api/oauth/token',
       'POST /api/session/create',
+      'DELETE /api/session',
+      'POST /api/session/revoke',
       'POST /api/proxy/dwolla/customers/search',
       'GET /api/proxy/dwolla/customers/:id',
       'GET /api/proxy/dwolla/transfers/:id',
       'GET /api/proxy/dwolla/customers/:id/transfers',
       'GET /api/proxy/dwolla/customers/:id/funding-sources',
+      'GET /api/proxy/dwolla/customers/:id/events',
+      'GET /api/proxy/dwolla/webhook-events',
+      'POST /api/webhooks/dwolla',
       'GET /health'
     ]
   })
@@ -678,13 +1194,15 @@ app.use((req, res) => {
 })
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully')
+  await sessionStore.close()
   process.exit(0)
 })
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully')
+  await sessionStore.close()
   process.exit(0)
 })
 
@@ -700,4 +1218,8 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   } else {
     console.log('🛠️  Running in development mode')
   }
+  
+  if (!tokenVault) {
+    console.log('⚠️  TOKEN_ENCRYPTION_KEY not set: HubSpot refresh tokens are not kept, agents sign in again when tokens expire')
+  }
 })
\ No newline at end of file
@@ -0,0 +1,251 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+// Session stores hold { extensionId, userEmail, userId, hubId, created, lastUsed, requestCount, expiresAt }
+// by session token, and the token vault's { extensionId, encryptedToken, created, expiresAt } by refresh handle.
+// Every method is async so a networked store (Redis, Postgres) can implement the same interface.
+
+// Process-local store. Sessions are lost on restart and not shared between instances.
+export class MemorySessionStore {
+  constructor() {
+    this.sessions = new Map() // sessionToken -> session
+    this.refreshTokens = new Map() // refreshHandle -> vault entry
+  }
+
+  async get(token) {
+    const session = this.sessions.get(token)
+    return session ? { ...session } : null
+  }
+
+  async set(token, session) {
+    this.sessions.set(token, { ...session })
+  }
+
+  async update(token, changes) {
+    const session = this.sessions.get(token)
+    if (session) {
+      Object.assign(session, changes)
+    }
+  }
+
+  async delete(token) {
+    return this.sessions.delete(token) ? 1 : 0
+  }
+
+  async deleteByExtensionId(extensionId) {
+    let deleted = 0
+    for (const [token, session] of this.sessions.entries()) {
+      if (session.extensionId === extensionId) {
+        this.sessions.delete(token)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  async deleteByUserEmail(userEmail) {
+    let deleted = 0
+    for (const [token, session] of this.sessions.entries()) {
+      if (session.userEmail === userEmail) {
+        this.sessions.delete(token)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  async deleteExpired(now = Date.now()) {
+    let deleted = 0
+    for (const [token, session] of this.sessions.entries()) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  async getRefreshToken(handle) {
+    const entry = this.refreshTokens.get(handle)
+    return entry ? { ...entry } : null
+  }
+
+  async setRefreshToken(handle, entry) {
+    this.refreshTokens.set(handle, { ...entry })
+  }
+
+  async deleteRefreshToken(handle) {
+    return this.refreshTokens.delete(handle) ? 1 : 0
+  }
+
+  async deleteExpiredRefreshTokens(now = Date.now()) {
+    let deleted = 0
+    for (const [handle, entry] of this.refreshTokens.entries()) {
+      if (entry.expiresAt <= now) {
+        this.refreshTokens.delete(handle)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  async close() {}
+}
+
+// Session tokens and refresh handles are stored hashed, so a copy of the database file cannot be used to make requests
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex')
+
+const toSession = (row) => row && {
+  extensionId: row.extension_id,
+  userEmail: row.user_email,
+  userId: row.user_id,
+  hubId: row.hub_id,
+  created: row.created,
+  lastUsed: row.last_used,
+  requestCount: row.request_count,
+  expiresAt: row.expires_at
+}
+
+const toVaultEntry = (row) => row && {
+  extensionId: row.extension_id,
+  encryptedToken: row.encrypted_token,
+  created: row.created,
+  expiresAt: row.expires_at
+}
+
+// SQLite file store. Survives restarts; instances share sessions only if they share the file.
+export class SqliteSessionStore {
+  constructor(Database, file) {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    this.db = new Database(file)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        extension_id TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        last_used INTEGER NOT NULL,
+        request_count INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_extension_id ON sessions (extension_id);
+      CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at);
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        handle_hash TEXT PRIMARY KEY,
+        extension_id TEXT NOT NULL,
+        encrypted_token TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+    this.addMissingColumns('sessions', { user_email: 'TEXT', user_id: 'TEXT', hub_id: 'TEXT' })
+    this.db.exec('CREATE INDEX IF NOT EXISTS sessions_user_email ON sessions (user_email)')
+
+    this.statements = {
+      get: this.db.prepare('SELECT * FROM sessions WHERE token_hash = ?'),
+      set: this.db.prepare(`
+        INSERT OR REPLACE INTO sessions
+          (token_hash, extension_id, user_email, user_id, hub_id, created, last_used, request_count, expires_at)
+        VALUES
+          (@tokenHash, @extensionId, @userEmail, @userId, @hubId, @created, @lastUsed, @requestCount, @expiresAt)
+      `),
+      update: this.db.prepare(`
+        UPDATE sessions SET last_used = @lastUsed, request_count = @requestCount WHERE token_hash = @tokenHash
+      `),
+      delete: this.db.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+      deleteByExtensionId: this.db.prepare('DELETE FROM sessions WHERE extension_id = ?'),
+      deleteByUserEmail: this.db.prepare('DELETE FROM sessions WHERE user_email = ?'),
+      deleteExpired: this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+      getRefreshToken: this.db.prepare('SELECT * FROM refresh_tokens WHERE handle_hash = ?'),
+      setRefreshToken: this.db.prepare(`
+        INSERT OR REPLACE INTO refresh_tokens (handle_hash, extension_id, encrypted_token, created, expires_at)
+        VALUES (@handleHash, @extensionId, @encryptedToken, @created, @expiresAt)
+      `),
+      deleteRefreshToken: this.db.prepare('DELETE FROM refresh_tokens WHERE handle_hash = ?'),
+      deleteExpiredRefreshTokens: this.db.prepare('DELETE FROM refresh_tokens WHERE expires_at <= ?')
+    }
+  }
+
+  // Databases created before a column was added are upgraded in place
+  addMissingColumns(table, columns) {
+    const existing = new Set(this.db.prepare(`PRAGMA table_info(${table})`).all().map(column => column.name))
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`)
+      }
+    }
+  }
+
+  async get(token) {
+    return toSession(this.statements.get.get(hashToken(token))) || null
+  }
+
+  async set(token, session) {
+    this.statements.set.run({ tokenHash: hashToken(token), userEmail: null, userId: null, hubId: null, ...session })
+  }
+
+  // Only the usage counters change after a session is created
+  async update(token, changes) {
+    const session = await this.get(token)
+    if (session) {
+      this.statements.update.run({ tokenHash: hashToken(token), ...session, ...changes })
+    }
+  }
+
+  async delete(token) {
+    return this.statements.delete.run(hashToken(token)).changes
+  }
+
+  async deleteByExtensionId(extensionId) {
+    return this.statements.deleteByExtensionId.run(extensionId).changes
+  }
+
+  async deleteByUserEmail(userEmail) {
+    return this.statements.deleteByUserEmail.run(userEmail).changes
+  }
+
+  async deleteExpired(now = Date.now()) {
+    return this.statements.deleteExpired.run(now).changes
+  }
+
+  async getRefreshToken(handle) {
+    return toVaultEntry(this.statements.getRefreshToken.get(hashToken(handle))) || null
+  }
+
+  async setRefreshToken(handle, entry) {
+    this.statements.setRefreshToken.run({ handleHash: hashToken(handle), ...entry })
+  }
+
+  async deleteRefreshToken(handle) {
+    return this.statements.deleteRefreshToken.run(hashToken(handle)).changes
+  }
+
+  async deleteExpiredRefreshTokens(now = Date.now()) {
+    return this.statements.deleteExpiredRefreshTokens.run(now).changes
+  }
+
+  async close() {
+    this.db.close()
+  }
+}
+
+// better-sqlite3 is a native module and an optional dependency, so it is only loaded when the SQLite store is selected
+export async function createSessionStore({ type = 'memory', file }) {
+  switch (type) {
+    case 'memory':
+      return new MemorySessionStore()
+    case 'sqlite': {
+      let Database
+      try {
+        ({ default: Database } = await import('better-sqlite3'))
+      } catch (error) {
+        if (error.code !== 'ERR_MODULE_NOT_FOUND') throw error
+        throw new Error('SESSION_STORE=sqlite needs better-sqlite3, which is not installed. Run "npm install better-sqlite3" in the backend, or use SESSION_STORE=memory.')
+      }
+      return new SqliteSessionStore(Database, file)
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${type}". Use "memory" or "sqlite".`)
+  }
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto'
+
+// Refresh tokens unused for this long are dropped, and the agent signs in to HubSpot again
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Holds HubSpot refresh tokens, encrypted with AES-256-GCM, in the session store, so the refresh
+// token itself never reaches the extension or a copy of the database. The extension gets an opaque
+// refresh handle instead. Together with the bundled API key and the extension ID, the handle mints
+// access tokens until it expires or is revoked, so it is still a bearer credential: the extension
+// revokes it on logout, and a leaked one must be revoked through DELETE /api/oauth/token.
+export class TokenVault {
+  constructor(store, key) {
+    this.store = store
+    this.key = key
+  }
+
+  // Store a refresh token for an extension and return the handle that identifies it
+  async save(extensionId, refreshToken) {
+    const handle = crypto.randomBytes(32).toString('hex')
+    await this.store.setRefreshToken(handle, {
+      extensionId,
+      encryptedToken: this.encrypt(refreshToken),
+      created: Date.now(),
+      expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS
+    })
+    return handle
+  }
+
+  // The refresh token behind a handle, or null if it is unknown, expired or belongs to another extension
+  async get(handle, extensionId) {
+    const entry = await this.store.getRefreshToken(handle)
+    if (!entry || entry.extensionId !== extensionId || entry.expiresAt <= Date.now()) {
+      return null
+    }
+
+    try {
+      return this.decrypt(entry.encryptedToken)
+    } catch {
+      // Encrypted under a previous TOKEN_ENCRYPTION_KEY
+      return null
+    }
+  }
+
+  // Keep a handle alive after use, storing the provider's new refresh token if it rotated one
+  async renew(handle, extensionId, refreshToken) {
+    const entry = await this.store.getRefreshToken(handle)
+    await this.store.setRefreshToken(handle, {
+      extensionId,
+      encryptedToken: this.encrypt(refreshToken),
+      created: entry?.created || Date.now(),
+      expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS
+    })
+  }
+
+  async revoke(handle) {
+    return this.store.deleteRefreshToken(handle)
+  }
+
+  async deleteExpired() {
+    return this.store.deleteExpiredRefreshTokens()
+  }
+
+  // iv.authTag.ciphertext, each base64
+  encrypt(text) {
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv)
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.')
+  }
+
+  decrypt(payload) {
+    const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'))
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, iv)
+    decipher.setAuthTag(authTag)
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+  }
+}
+
+// The vault is only enabled when TOKEN_ENCRYPTION_KEY is set, as 32 bytes in base64
+export function createTokenVault(store, encodedKey) {
+  if (!encodedKey) {
+    return null
+  }
+
+  const key = Buffer.from(encodedKey, 'base64')
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded (openssl rand -base64 32)')
+  }
+  return new TokenVault(store, key)
+}
@@ -9,7 +9,10 @@ export default defineManifest({
   permissions: [
     'storage',
     'identity',
-    'alarms'
+    'alarms',
+    'notifications',
+    'downloads',
+    'sidePanel'
   ],
   
   host_permissions: [
@@ -35,6 +38,12 @@ export default defineManifest({
     }
   },
   
+  side_panel: {
+    default_path: 'src/sidepanel/index.html'
+  },
+  
+  options_page: 'src/options/index.html',
+  
   icons: {
     '16': 'public/icons/icon-16.png',
     '32': 'public/icons/icon-32.png',
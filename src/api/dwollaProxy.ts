@@ -1,9 +1,10 @@
 // Dwolla Proxy Client - Uses backend proxy with Client Credentials authentication
 import { env } from '../config/env'
 import { logger } from '../utils/logger'
+import { rateLimiter, RateLimitError } from '../utils/rateLimiter'
+import { getAccessToken } from '../utils/auth'
 
 const BACKEND_API_URL = env.VITE_BACKEND_API_URL || 'http://localhost:3001'
-const API_KEY = env.VITE_API_KEY || 'development-key'
 
 // Session token management
 let sessionToken: string | null = null
@@ -41,11 +42,17 @@ async function getSessionToken(): Promise<string> {
   try {
     logger.info('Creating new Dwolla proxy session')
     
+    // The backend ties each session to the HubSpot user behind this token
+    const hubspotToken = await getAccessToken('hubspot')
+    if (!hubspotToken) {
+      throw new DwollaProxyError('Connect HubSpot to use Dwolla features', 401)
+    }
+    
     const response = await fetch(`${BACKEND_API_URL}/api/session/create`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-API-Key': API_KEY,
+        'Authorization': `Bearer ${hubspotToken}`,
         'X-Extension-ID': chrome.runtime.id
       }
     })
@@ -75,6 +82,25 @@ async function getSessionToken(): Promise<string> {
   }
 }
 
+// Pass the backend's rate limit headers on to the local rate limiter, and turn a 429
+// into the same RateLimitError the local limiter throws
+async function syncRateLimit(response: Response): Promise<void> {
+  const remainingHeader = response.headers.get('X-RateLimit-Remaining')
+  const retryAfterHeader = response.headers.get('Retry-After')
+  if (remainingHeader === null && response.status !== 429) {
+    return
+  }
+
+  const remaining = response.status === 429 ? 0 : parseInt(remainingHeader || '0', 10)
+  const resetTime = retryAfterHeader ? Date.now() + parseInt(retryAfterHeader, 10) * 1000 : undefined
+  await rateLimiter.syncWithServer('dwolla', remaining, resetTime)
+
+  if (response.status === 429) {
+    const limit = parseInt(response.headers.get('X-RateLimit-Limit') || '0', 10)
+    throw new RateLimitError('dwolla', resetTime || Date.now() + 60 * 1000, limit)
+  }
+}
+
 // Make authenticated proxy request
 async function proxyRequest<T>(
   endpoint: string,
@@ -97,6 +123,7 @@ async function proxyRequest<T>(
       `${BACKEND_API_URL}/api/proxy/dwolla${endpoint}`,
       requestOptions
     )
+    await syncRateLimit(response)
 
     if (!response.ok) {
       // Handle session expiry
@@ -115,6 +142,7 @@ async function proxyRequest<T>(
           `${BACKEND_API_URL}/api/proxy/dwolla${endpoint}`,
           requestOptions
         )
+        await syncRateLimit(retryResponse)
         
         if (!retryResponse.ok) {
           const error = await retryResponse.json() as ProxyError
@@ -136,7 +164,7 @@ async function proxyRequest<T>(
 
     return response.json()
   } catch (error) {
-    if (error instanceof DwollaProxyError) {
+    if (error instanceof DwollaProxyError || error instanceof RateLimitError) {
       throw error
     }
     
@@ -153,6 +181,7 @@ async function proxyRequest<T>(
 export const dwollaProxy = {
   // Search customers
   async searchCustomers(params: {
+    search?: string
     email?: string
     firstName?: string
     lastName?: string
@@ -186,8 +215,33 @@ export const dwollaProxy = {
     return proxyRequest(`/customers/${customerId}/funding-sources`)
   },
 
-  // Clear session (for logout)
+  // Get events that reference a customer
+  async getCustomerEvents(customerId: string, limit = 50): Promise<any> {
+    return proxyRequest(`/customers/${customerId}/events?limit=${limit}`)
+  },
+
+  // Get webhook events received after a cursor, optionally only for some customers
+  async getWebhookEvents(after: number, customerIds: string[] = []): Promise<any> {
+    const params = new URLSearchParams({ after: String(after) })
+    if (customerIds.length > 0) {
+      params.set('customerIds', customerIds.join(','))
+    }
+    return proxyRequest(`/webhook-events?${params}`)
+  },
+
+  // Clear session (for logout), revoking it on the backend as well
   clearSession(): void {
+    if (sessionToken) {
+      fetch(`${BACKEND_API_URL}/api/session`, {
+        method: 'DELETE',
+        headers: {
+          'X-Session-Token': sessionToken,
+          'X-Extension-ID': chrome.runtime.id
+        }
+      }).catch(error => {
+        logger.warn('Failed to revoke Dwolla proxy session', { error: (error as Error).message })
+      })
+    }
     sessionToken = null
     sessionExpiry = null
     logger.info('Dwolla proxy session cleared')
@@ -3,11 +3,25 @@
 
 // Import all dependencies statically at the top
 import { logger, generateRequestId, detectQueryType } from '../utils/logger'
-import { getAccessToken, clearAllTokens, exchangeCodeForToken } from '../utils/auth'
-import { EnhancedHubSpotClient, EnhancedDwollaClient } from '../utils/apiEnhanced'
+import { getAccessToken, clearAllTokens, exchangeCodeForToken, createOAuthFlowParams, isAuthenticated } from '../utils/auth'
+import {
+  EnhancedHubSpotClient,
+  EnhancedDwollaClient,
+  ApiError,
+  DWOLLA_PAGE_SIZE,
+  DWOLLA_SEARCH_MAX_PAGES,
+  HUBSPOT_IN_FILTER_LIMIT
+} from '../utils/apiEnhanced'
 import { dataCorrelationService } from '../utils/dataCorrelation'
-import { rateLimiter } from '../utils/rateLimiter'
+import { correlationRulesService } from '../utils/correlationRules'
+import { crmWriteBackService, OnboardingStatusUpdate } from '../utils/crmWriteBack'
+import { liveUpdatesService, ATTENTION_TOPICS, CustomerLiveUpdate } from '../utils/liveUpdates'
+import { watchlistService } from '../utils/watchlist'
+import { bulkLookupService, summarizeLookup, BulkLookupJob, BulkLookupRow } from '../utils/bulkLookup'
+import { rateLimiter, RateLimitError } from '../utils/rateLimiter'
+import { normalizePhoneNumber, isHubSpotRecordIdLike } from '../utils/validation'
 import { env } from '../config/env'
+import { HubSpotSearchCursor, HubSpotCompany, HubSpotContact, DwollaCustomer, DwollaTransfer } from '../types'
 
 // Message types
 interface AuthMessage {
@@ -18,6 +32,7 @@ interface AuthMessage {
 interface SearchMessage {
   type: 'SEARCH_CUSTOMER'
   query: string
+  continuation?: HubSpotSearchCursor
 }
 
 interface TransfersMessage {
@@ -25,12 +40,73 @@ interface TransfersMessage {
   customerId: string
 }
 
+interface TransferDetailsMessage {
+  type: 'GET_TRANSFER_DETAILS'
+  transferId: string
+}
+
+interface FundingSourcesMessage {
+  type: 'GET_FUNDING_SOURCES'
+  customerId: string
+}
+
+interface CustomerEventsMessage {
+  type: 'GET_CUSTOMER_EVENTS'
+  customerId: string
+}
+
+interface LinkAccountsMessage {
+  type: 'LINK_ACCOUNTS'
+  companyId: string
+  dwollaId: string
+}
+
+interface SyncOnboardingStatusMessage {
+  type: 'SYNC_ONBOARDING_STATUS'
+  updates: OnboardingStatusUpdate[]
+}
+
+interface CreateNoteMessage {
+  type: 'CREATE_NOTE'
+  body: string
+  companyIds: string[]
+  contactIds: string[]
+}
+
+interface CreateTicketMessage {
+  type: 'CREATE_TICKET'
+  companyId: string
+  customerName: string
+  transfers: DwollaTransfer[]
+}
+
+interface UndoWriteBackMessage {
+  type: 'UNDO_WRITE_BACK'
+  auditId: string
+}
+
+interface TrackCustomersMessage {
+  type: 'TRACK_CUSTOMERS'
+  customerIds: string[]
+}
+
+interface StartBulkLookupMessage {
+  type: 'START_BULK_LOOKUP'
+  queries: string[]
+}
+
+interface CancelBulkLookupMessage {
+  type: 'CANCEL_BULK_LOOKUP'
+}
+
 interface DebugMessage {
   type: 'GET_LOGS' | 'CLEAR_LOGS' | 'GET_RATE_LIMIT_STATUS' | 'GET_PERFORMANCE_METRICS'
   filter?: any
 }
 
-type Message = AuthMessage | SearchMessage | TransfersMessage | DebugMessage
+type Message = AuthMessage | SearchMessage | TransfersMessage | TransferDetailsMessage | FundingSourcesMessage |
+  CustomerEventsMessage | LinkAccountsMessage | SyncOnboardingStatusMessage | CreateNoteMessage | CreateTicketMessage |
+  UndoWriteBackMessage | TrackCustomersMessage | StartBulkLookupMessage | CancelBulkLookupMessage | DebugMessage
 
 // Session management
 const SESSION_TIMEOUT = 30 * 60 * 1000 // 30 minutes
@@ -38,9 +114,21 @@ const SESSION_TIMEOUT = 30 * 60 * 1000 // 30 minutes
 // Set up alarm for session timeout
 chrome.alarms.create('session-timeout', { periodInMinutes: 1 })
 
+// Poll the backend for Dwolla webhook events on customers the agent is viewing
+chrome.alarms.create('dwolla-events', { periodInMinutes: 1 })
+
+// Re-fetch watched customers within the Dwolla budget, those with webhook events first
+chrome.alarms.create('watchlist-check', { periodInMinutes: 5 })
+
 chrome.alarms.onAlarm.addListener((alarm) => {
   if (alarm.name === 'session-timeout') {
     checkSessionTimeout()
+  } else if (alarm.name === 'dwolla-events') {
+    pollLiveUpdates()
+  } else if (alarm.name === 'watchlist-check') {
+    checkWatchlist()
+  } else if (alarm.name === 'bulk-lookup') {
+    processBulkLookup()
   }
 })
 
@@ -101,7 +189,7 @@ chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) =>
       return true
 
     case 'SEARCH_CUSTOMER':
-      handleSearch(message.query)
+      handleSearch(message.query, message.continuation)
         .then(handleResponse)
         .catch(handleError)
       return true
@@ -112,6 +200,72 @@ chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) =>
         .catch(handleError)
       return true
 
+    case 'GET_TRANSFER_DETAILS':
+      handleGetTransferDetails(message.transferId)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'GET_FUNDING_SOURCES':
+      handleGetFundingSources(message.customerId)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'GET_CUSTOMER_EVENTS':
+      handleGetCustomerEvents(message.customerId)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'TRACK_CUSTOMERS':
+      handleTrackCustomers(message.customerIds)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'START_BULK_LOOKUP':
+      handleStartBulkLookup(message.queries)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'CANCEL_BULK_LOOKUP':
+      handleCancelBulkLookup()
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'LINK_ACCOUNTS':
+      handleLinkAccounts(message.companyId, message.dwollaId)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'SYNC_ONBOARDING_STATUS':
+      handleSyncOnboardingStatus(message.updates)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'CREATE_NOTE':
+      handleCreateNote(message.body, message.companyIds, message.contactIds)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'CREATE_TICKET':
+      handleCreateTicket(message.companyId, message.customerName, message.transfers)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
+    case 'UNDO_WRITE_BACK':
+      handleUndoWriteBack(message.auditId)
+        .then(handleResponse)
+        .catch(handleError)
+      return true
+
     case 'GET_LOGS':
       handleGetLogs((message as DebugMessage).filter)
         .then(handleResponse)
@@ -170,13 +324,19 @@ async function authenticateHubSpot() {
   }
   
   const redirectUri = chrome.identity.getRedirectURL()
-  const scope = 'crm.objects.contacts.read crm.objects.companies.read'
+  const scope = 'crm.objects.contacts.read crm.objects.contacts.write crm.objects.companies.read crm.objects.companies.write tickets'
+  
+  // Held in memory only: the service worker stays alive while the auth flow is open
+  const { state, codeVerifier, codeChallenge } = await createOAuthFlowParams()
   
   const authUrl = `https://app.hubspot.com/oauth/authorize?` +
     `client_id=${clientId}&` +
     `redirect_uri=${encodeURIComponent(redirectUri)}&` +
     `scope=${encodeURIComponent(scope)}&` +
-    `response_type=code`
+    `response_type=code&` +
+    `state=${state}&` +
+    `code_challenge=${codeChallenge}&` +
+    `code_challenge_method=S256`
 
   try {
     const responseUrl = await chrome.identity.launchWebAuthFlow({
@@ -192,12 +352,17 @@ async function authenticateHubSpot() {
     const url = new URL(responseUrl)
     const code = url.searchParams.get('code')
     
+    // A redirect without our state was not started by this flow, e.g. an injected authorization code
+    if (url.searchParams.get('state') !== state) {
+      throw new Error('OAuth state mismatch. Please try connecting again.')
+    }
+    
     if (!code) {
       throw new Error('No authorization code received')
     }
     
     // Exchange code for token via secure backend service
-    await exchangeCodeForToken(code, 'hubspot')
+    await exchangeCodeForToken(code, 'hubspot', codeVerifier)
     
     return { success: true }
   } catch (error) {
@@ -217,8 +382,88 @@ async function authenticateDwolla() {
   return { success: true, message: 'Dwolla authentication via proxy is enabled' }
 }
 
-// Search handler with comprehensive logging
-async function handleSearch(query: string) {
+interface HubSpotSearchData {
+  companies: HubSpotCompany[]
+  contacts: HubSpotContact[]
+  next?: HubSpotSearchCursor
+}
+
+interface DwollaSearchData {
+  customers: DwollaCustomer[]
+  transfers: DwollaTransfer[]
+  total?: number
+  truncated: boolean
+}
+
+// Raw results of the most recent search, kept so "load more" only fetches the next HubSpot page
+interface CachedSearch {
+  query: string
+  hubspot: HubSpotSearchData
+  dwolla: DwollaSearchData
+}
+
+const LAST_SEARCH_KEY = 'last_search_results'
+
+async function getCachedSearch(query: string): Promise<CachedSearch | null> {
+  const { [LAST_SEARCH_KEY]: cached } = await chrome.storage.session.get(LAST_SEARCH_KEY)
+  return cached && cached.query === query ? cached as CachedSearch : null
+}
+
+async function cacheSearch(search: CachedSearch): Promise<void> {
+  await chrome.storage.session.set({ [LAST_SEARCH_KEY]: search })
+}
+
+function appendHubSpotPage(previous: HubSpotSearchData, nextPage: HubSpotSearchData): HubSpotSearchData {
+  const companyIds = new Set(previous.companies.map(c => c.id))
+  const contactIds = new Set(previous.contacts.map(c => c.id))
+
+  return {
+    companies: [...previous.companies, ...nextPage.companies.filter(c => !companyIds.has(c.id))],
+    contacts: [...previous.contacts, ...nextPage.contacts.filter(c => !contactIds.has(c.id))],
+    next: nextPage.next
+  }
+}
+
+const isSameCursor = (a: HubSpotSearchCursor, b: HubSpotSearchCursor) =>
+  a.companies === b.companies && a.contacts === b.contacts
+
+// Pages replayed at most when rebuilding results; beyond this the gap is left rather than spending the HubSpot budget
+const MAX_REPLAYED_PAGES = 10
+
+// Re-run the HubSpot search from the first page up to, but not including, the page at the cursor
+async function searchHubSpotUntil(
+  query: string,
+  hubspotToken: string,
+  cursor: HubSpotSearchCursor
+): Promise<HubSpotSearchData> {
+  let data = await searchHubSpot(query, hubspotToken)
+  for (let page = 1; page < MAX_REPLAYED_PAGES && data.next && !isSameCursor(data.next, cursor); page++) {
+    data = appendHubSpotPage(data, await searchHubSpot(query, hubspotToken, data.next))
+  }
+  return data
+}
+
+// Append the next HubSpot page to the cached results, re-running the earlier pages
+// and the Dwolla search if the cache is gone (e.g. the popup used direct search)
+async function loadMoreResults(
+  query: string,
+  continuation: HubSpotSearchCursor,
+  hubspotToken: string,
+  dwollaToken: string
+): Promise<[HubSpotSearchData, DwollaSearchData]> {
+  const cached = await getCachedSearch(query)
+  const [previous, nextPage, dwollaData] = await Promise.all([
+    cached ? Promise.resolve(cached.hubspot) : searchHubSpotUntil(query, hubspotToken, continuation),
+    searchHubSpot(query, hubspotToken, continuation),
+    cached ? Promise.resolve(cached.dwolla) : searchDwolla(query, dwollaToken)
+  ])
+
+  return [appendHubSpotPage(previous, nextPage), dwollaData]
+}
+
+// Search handler with comprehensive logging. Bulk lookups pass cacheResults = false
+// so they do not replace the results the popup pages through.
+async function handleSearch(query: string, continuation?: HubSpotSearchCursor, cacheResults = true) {
   const requestId = generateRequestId()
   const timer = logger.startTimer('search_operation')
   
@@ -229,7 +474,12 @@ async function handleSearch(query: string) {
       requestId,
       queryLength: query.length,
       queryType,
-      sanitizedQuery: queryType === 'email' ? query.replace(/^(.{3}).*@/, '$1***@') : query.substring(0, 20)
+      sanitizedQuery: queryType === 'email'
+        ? query.replace(/^(.{3}).*@/, '$1***@')
+        : queryType === 'phone'
+          ? query.replace(/\d(?=(?:\D*\d){4})/g, '*')
+          : query.substring(0, 20),
+      isContinuation: !!continuation
     })
     
     // Get valid access tokens
@@ -253,12 +503,24 @@ async function handleSearch(query: string) {
 
     // Perform parallel API calls
     const apiTimer = logger.startTimer('api_calls')
-    const [hubspotData, dwollaData] = await Promise.all([
-      searchHubSpot(query, hubspotToken),
-      searchDwolla(query, dwollaToken)
-    ])
+    const [primaryHubspotData, primaryDwollaData] = continuation
+      ? await loadMoreResults(query, continuation, hubspotToken, dwollaToken)
+      : await Promise.all([
+          searchHubSpot(query, hubspotToken),
+          searchDwolla(query, dwollaToken)
+        ])
+    
+    // A HubSpot record lookup finds its Dwolla customer through the company's dwolla_id
+    const dwollaData = queryType === 'hubspot_id' || queryType === 'phone'
+      ? await resolveLinkedDwollaCustomers(primaryHubspotData, primaryDwollaData)
+      : primaryDwollaData
+    const hubspotData = await attachReverseLinkedCompanies(primaryHubspotData, dwollaData)
     const apiDuration = apiTimer.end()
     
+    if (cacheResults) {
+      await cacheSearch({ query, hubspot: hubspotData, dwolla: dwollaData })
+    }
+    
     const totalDuration = timer.end()
     
     // Log results
@@ -290,8 +552,9 @@ async function handleSearch(query: string) {
       resultCount: hubspotData.contacts.length + hubspotData.companies.length + dwollaData.customers.length
     })
     
-    // Correlate the data
+    // Correlate the data using the agent's saved rules
     const correlationTimer = logger.startTimer('data_correlation')
+    dataCorrelationService.setRules(await correlationRulesService.getRules())
     const correlatedData = dataCorrelationService.correlateSearchResults(
       hubspotData.companies,
       hubspotData.contacts,
@@ -306,7 +569,9 @@ async function handleSearch(query: string) {
       linkedAccounts: correlatedData.filter(d => d.correlation.isLinked).length,
       unlinkedHubSpot: correlatedData.filter(d => d.hubspot.company && !d.dwolla.customer).length,
       unlinkedDwolla: correlatedData.filter(d => !d.hubspot.company && d.dwolla.customer).length,
-      inconsistencyCount: correlatedData.reduce((count, d) => count + d.correlation.inconsistencies.length, 0)
+      inconsistencyCount: correlatedData.reduce((count, d) => count + d.correlation.inconsistencies.length, 0),
+      dwollaTruncated: dwollaData.truncated,
+      dwollaTotal: dwollaData.total
     }
     
     logger.info('Data correlation completed', {
@@ -320,7 +585,8 @@ async function handleSearch(query: string) {
       hubspot: hubspotData,
       dwolla: dwollaData,
       correlatedData,
-      summary
+      summary,
+      continuation: hubspotData.next
     }
   } catch (error) {
     const duration = timer.end()
@@ -335,7 +601,11 @@ async function handleSearch(query: string) {
   }
 }
 
-async function searchHubSpot(query: string, _token: string) {
+async function searchHubSpot(
+  query: string,
+  _token: string,
+  cursor?: HubSpotSearchCursor
+): Promise<HubSpotSearchData> {
   const client = new EnhancedHubSpotClient()
   const queryType = detectQueryType(query)
   
@@ -346,14 +616,38 @@ async function searchHubSpot(query: string, _token: string) {
         contacts: contactsResponse.results || [],
         companies: []
       }
+    } else if (queryType === 'phone') {
+      // Bare 10/11-digit input could also be a HubSpot record ID, so try both
+      const [contactsResponse, company] = await Promise.all([
+        client.searchContactsByPhone(normalizePhoneNumber(query)!),
+        isHubSpotRecordIdLike(query) ? getHubSpotCompany(client, query) : Promise.resolve(null)
+      ])
+      return {
+        contacts: contactsResponse.results || [],
+        companies: company ? [company] : []
+      }
+    } else if (queryType === 'hubspot_id') {
+      const company = await getHubSpotCompany(client, query)
+      return {
+        contacts: [],
+        companies: company ? [company] : []
+      }
+    } else if (queryType === 'dwolla_id') {
+      return {
+        contacts: [],
+        companies: []
+      }
     } else {
-      const results = await client.searchByName(query)
+      const results = await client.searchByName(query, cursor)
       return {
         contacts: results.contacts || [],
-        companies: results.companies || []
+        companies: results.companies || [],
+        next: results.next
       }
     }
   } catch (error) {
+    // Running out of budget is not the same as finding nothing
+    if (error instanceof RateLimitError) throw error
     console.error('HubSpot search error:', error)
     return {
       companies: [],
@@ -362,7 +656,7 @@ async function searchHubSpot(query: string, _token: string) {
   }
 }
 
-async function searchDwolla(query: string, _token: string) {
+async function searchDwolla(query: string, _token: string): Promise<DwollaSearchData> {
   const client = new EnhancedDwollaClient()
   const queryType = detectQueryType(query)
   
@@ -371,23 +665,120 @@ async function searchDwolla(query: string, _token: string) {
     
     if (queryType === 'email') {
       customersResponse = await client.searchCustomers(query)
+    } else if (queryType === 'phone') {
+      customersResponse = await client.searchCustomersByPhone(normalizePhoneNumber(query)!)
+    } else if (queryType === 'dwolla_id') {
+      const { customers, transfers } = await lookupDwollaId(client, query)
+      return {
+        customers,
+        transfers,
+        total: customers.length,
+        truncated: false
+      }
+    } else if (queryType === 'hubspot_id') {
+      // Resolved from the company's dwolla_id once the HubSpot lookup finishes
+      return {
+        customers: [],
+        transfers: [],
+        total: 0,
+        truncated: false
+      }
     } else {
       customersResponse = await client.searchCustomersByName(query)
     }
     
     return {
       customers: customersResponse._embedded?.customers || [],
-      transfers: []
+      transfers: [],
+      total: customersResponse.total,
+      truncated: !!customersResponse.truncated
     }
   } catch (error) {
+    if (error instanceof RateLimitError) throw error
     console.error('Dwolla search error:', error)
     return {
       customers: [],
-      transfers: []
+      transfers: [],
+      total: 0,
+      truncated: false
     }
   }
 }
 
+// Company by record ID, or null when it does not exist
+async function getHubSpotCompany(client: EnhancedHubSpotClient, id: string): Promise<HubSpotCompany | null> {
+  try {
+    return await client.getCompanyById(id)
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null
+    }
+    throw error
+  }
+}
+
+// Customer or transfer by Dwolla ID, or nothing when neither exists
+async function lookupDwollaId(client: EnhancedDwollaClient, id: string) {
+  try {
+    return await client.lookupById(id)
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return { customers: [], transfers: [] }
+    }
+    throw error
+  }
+}
+
+// Fetch the Dwolla customers referenced by companies' dwolla_id that the search did not return
+async function resolveLinkedDwollaCustomers(
+  hubspotData: HubSpotSearchData,
+  dwollaData: DwollaSearchData
+): Promise<DwollaSearchData> {
+  const knownIds = new Set(dwollaData.customers.map(c => c.id))
+  const missingIds = hubspotData.companies
+    .map(company => company.properties.dwolla_id)
+    .filter((id): id is string => !!id && !knownIds.has(id))
+
+  if (missingIds.length === 0) {
+    return dwollaData
+  }
+
+  const client = new EnhancedDwollaClient()
+  const linkedCustomers = await client.getCustomersByIds([...new Set(missingIds)])
+
+  return {
+    ...dwollaData,
+    customers: [...dwollaData.customers, ...linkedCustomers]
+  }
+}
+
+// Find companies for Dwolla customers the text search could not link, so correlation
+// can match them by dwolla_id even when the company name differs
+async function attachReverseLinkedCompanies(
+  hubspotData: HubSpotSearchData,
+  dwollaData: DwollaSearchData
+): Promise<HubSpotSearchData> {
+  const unlinkedIds = dataCorrelationService.findUnlinkedDwollaIds(hubspotData.companies, dwollaData.customers)
+  if (unlinkedIds.length === 0) {
+    return hubspotData
+  }
+
+  try {
+    const client = new EnhancedHubSpotClient()
+    const companies = await client.searchCompaniesByDwollaIds(unlinkedIds)
+    const knownIds = new Set(hubspotData.companies.map(c => c.id))
+
+    return {
+      ...hubspotData,
+      companies: [...hubspotData.companies, ...companies.filter(c => !knownIds.has(c.id))]
+    }
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error
+    logger.error('Reverse dwolla_id lookup failed', error as Error, { customerCount: unlinkedIds.length })
+    return hubspotData
+  }
+}
+
 async function handleGetTransfers(customerId: string) {
   try {
     const dwollaToken = await getAccessToken('dwolla')
@@ -420,6 +811,396 @@ async function getDwollaTransfers(customerId: string, _token: string) {
   }
 }
 
+async function handleGetTransferDetails(transferId: string) {
+  try {
+    const dwollaToken = await getAccessToken('dwolla')
+    
+    if (!dwollaToken) {
+      throw new Error('Not authenticated with Dwolla')
+    }
+
+    const client = new EnhancedDwollaClient()
+    const transfer = await client.getTransferById(transferId)
+    
+    return {
+      success: true,
+      transfer
+    }
+  } catch (error) {
+    console.error('Get transfer details error:', error)
+    throw error
+  }
+}
+
+async function handleGetCustomerEvents(customerId: string) {
+  try {
+    const dwollaToken = await getAccessToken('dwolla')
+    
+    if (!dwollaToken) {
+      throw new Error('Not authenticated with Dwolla')
+    }
+
+    const client = new EnhancedDwollaClient()
+    const response = await client.getCustomerEvents(customerId)
+    
+    return {
+      success: true,
+      events: response._embedded?.events || [],
+      truncated: !!response.truncated
+    }
+  } catch (error) {
+    console.error('Get customer events error:', error)
+    throw error
+  }
+}
+
+async function handleTrackCustomers(customerIds: string[]) {
+  await liveUpdatesService.trackCustomers(customerIds)
+  // Starts the event cursor right away, so nothing between now and the next alarm is missed
+  await pollLiveUpdates()
+  return { success: true }
+}
+
+async function pollLiveUpdates() {
+  try {
+    const updates = await liveUpdatesService.poll()
+    for (const update of updates) {
+      logger.info('Dwolla webhook events received', {
+        customerId: update.customerId,
+        topics: update.events.map(event => event.topic)
+      })
+
+      // Only an open popup listens for this; otherwise there is no receiver
+      chrome.runtime.sendMessage({ type: 'DWOLLA_CUSTOMER_UPDATED', update }).catch(() => {})
+      notifyCustomerUpdate(update)
+    }
+  } catch (error) {
+    logger.error('Live update poll failed', error as Error)
+  }
+}
+
+function notifyCustomerUpdate(update: CustomerLiveUpdate) {
+  const customerName = update.customer.businessName ||
+    `${update.customer.firstName} ${update.customer.lastName}`.trim() ||
+    update.customer.email
+
+  update.events
+    .filter(event => ATTENTION_TOPICS[event.topic])
+    .forEach(event => {
+      chrome.notifications.create(`dwolla-event-${event.id}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+        title: ATTENTION_TOPICS[event.topic],
+        message: customerName,
+        priority: 2
+      })
+    })
+}
+
+async function checkWatchlist() {
+  try {
+    // Dwolla sessions need a signed-in HubSpot user, so checks wait for the agent to sign in again
+    const signedIn = await isAuthenticated('hubspot')
+    await watchlistService.setPaused(!signedIn)
+    if (!signedIn) return
+
+    const changes = await watchlistService.checkForChanges()
+    changes.forEach(change => {
+      chrome.notifications.create(`watchlist-${change.id}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+        title: change.customerName,
+        message: change.description,
+        priority: 1
+      })
+    })
+
+    if (changes.length > 0) {
+      logger.info('Watchlist changes detected', { count: changes.length })
+      await watchlistService.updateBadge()
+    }
+  } catch (error) {
+    logger.error('Watchlist check failed', error as Error)
+  }
+}
+
+// Requests a single lookup may need at worst from each provider; the queue pauses when a
+// budget drops below this rather than failing lookups part way through.
+// Dwolla: every search page plus a linked customer by ID (a Dwolla ID lookup needs at most 4).
+// HubSpot: the contact and company searches plus the reverse dwolla_id lookup over every Dwolla result.
+const BULK_LOOKUP_DWOLLA_BUDGET = DWOLLA_SEARCH_MAX_PAGES + 1
+const BULK_LOOKUP_HUBSPOT_BUDGET = 2 + Math.ceil(DWOLLA_SEARCH_MAX_PAGES * DWOLLA_PAGE_SIZE / HUBSPOT_IN_FILTER_LIMIT)
+const BULK_LOOKUP_REQUEST_BUDGET: Record<string, number> = {
+  dwolla: BULK_LOOKUP_DWOLLA_BUDGET,
+  hubspot: BULK_LOOKUP_HUBSPOT_BUDGET,
+  global: BULK_LOOKUP_DWOLLA_BUDGET + BULK_LOOKUP_HUBSPOT_BUDGET
+}
+let bulkLookupRunning = false
+
+async function handleStartBulkLookup(queries: string[]) {
+  try {
+    const job = await bulkLookupService.createJob(queries)
+
+    // Resumes the queue after rate limit pauses or if the worker is stopped mid-run
+    chrome.alarms.create('bulk-lookup', { periodInMinutes: 1 })
+    processBulkLookup()
+
+    return { success: true, job }
+  } catch (error) {
+    console.error('Start bulk lookup error:', error)
+    throw error
+  }
+}
+
+async function handleCancelBulkLookup() {
+  const job = await bulkLookupService.getJob()
+  if (job && (job.status === 'running' || job.status === 'paused')) {
+    await bulkLookupService.saveJob({ ...job, status: 'cancelled', resumeAt: undefined })
+  }
+  await chrome.alarms.clear('bulk-lookup')
+  return { success: true }
+}
+
+async function processBulkLookup() {
+  if (bulkLookupRunning) return
+  bulkLookupRunning = true
+
+  try {
+    let job = await bulkLookupService.getJob()
+    while (job && (job.status === 'running' || job.status === 'paused')) {
+      if (job.resumeAt && Date.now() < job.resumeAt) return
+
+      const index = job.rows.findIndex(row => row.status === 'queued')
+      if (index === -1) {
+        await finishBulkLookup(job)
+        return
+      }
+
+      const resumeAt = await getBulkLookupResumeTime()
+      if (resumeAt) {
+        logger.info('Bulk lookup paused for rate limits', { id: job.id, resumeAt })
+        await bulkLookupService.saveJob({ ...job, status: 'paused', resumeAt })
+        return
+      }
+
+      const query = job.rows[index].query
+      let row: BulkLookupRow
+      try {
+        const result = await handleSearch(query, undefined, false)
+        row = summarizeLookup(query, result.correlatedData)
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          await bulkLookupService.saveJob({ ...job, status: 'paused', resumeAt: error.resetTime })
+          return
+        }
+        row = { query, status: 'failed', error: (error as Error).message }
+      }
+
+      // The job may have been cancelled or replaced while the search ran
+      const current = await bulkLookupService.getJob()
+      if (!current || current.id !== job.id || current.status === 'cancelled') return
+
+      job = {
+        ...current,
+        status: 'running',
+        resumeAt: undefined,
+        rows: current.rows.map((existing, i) => i === index ? row : existing)
+      }
+      await bulkLookupService.saveJob(job)
+    }
+  } catch (error) {
+    logger.error('Bulk lookup failed', error as Error)
+  } finally {
+    bulkLookupRunning = false
+  }
+}
+
+async function getBulkLookupResumeTime(): Promise<number | null> {
+  const status = await rateLimiter.getStatus()
+  const exhausted = Object.entries(BULK_LOOKUP_REQUEST_BUDGET)
+    .filter(([key, budget]) => status[key] && status[key].remaining < budget)
+    .map(([key]) => status[key])
+
+  return exhausted.length > 0 ? Math.max(...exhausted.map(limit => limit.resetTime)) : null
+}
+
+async function finishBulkLookup(job: BulkLookupJob) {
+  await bulkLookupService.saveJob({ ...job, status: 'completed', resumeAt: undefined, completedAt: Date.now() })
+  await chrome.alarms.clear('bulk-lookup')
+
+  const failed = job.rows.filter(row => row.status === 'failed').length
+  logger.info('Bulk lookup completed', { id: job.id, count: job.rows.length, failed })
+
+  chrome.notifications.create(`bulk-lookup-${job.id}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+    title: 'Bulk lookup finished',
+    message: failed > 0
+      ? `${job.rows.length} lookups, ${failed} failed`
+      : `${job.rows.length} lookups completed`,
+    priority: 0
+  })
+}
+
+async function handleLinkAccounts(companyId: string, dwollaId: string) {
+  try {
+    const hubspotToken = await getAccessToken('hubspot')
+    
+    if (!hubspotToken) {
+      throw new Error('Not authenticated with HubSpot')
+    }
+
+    const { company, auditEntry } = await crmWriteBackService.linkDwollaCustomer(companyId, dwollaId)
+    
+    return {
+      success: true,
+      company,
+      auditId: auditEntry.id
+    }
+  } catch (error) {
+    console.error('Link accounts error:', error)
+    throw error
+  }
+}
+
+async function handleSyncOnboardingStatus(updates: OnboardingStatusUpdate[]) {
+  try {
+    const hubspotToken = await getAccessToken('hubspot')
+    
+    if (!hubspotToken) {
+      throw new Error('Not authenticated with HubSpot')
+    }
+
+    const results = await crmWriteBackService.syncOnboardingStatus(updates)
+    
+    logger.info('Onboarding status sync completed', {
+      requested: updates.length,
+      updated: results.filter(r => r.success).length
+    })
+    
+    return {
+      success: true,
+      results
+    }
+  } catch (error) {
+    console.error('Sync onboarding status error:', error)
+    throw error
+  }
+}
+
+async function handleCreateNote(body: string, companyIds: string[], contactIds: string[]) {
+  try {
+    const hubspotToken = await getAccessToken('hubspot')
+    
+    if (!hubspotToken) {
+      throw new Error('Not authenticated with HubSpot')
+    }
+
+    const note = await crmWriteBackService.createNote(body, { companyIds, contactIds })
+    
+    return {
+      success: true,
+      note
+    }
+  } catch (error) {
+    console.error('Create note error:', error)
+    throw error
+  }
+}
+
+// Failure details are fetched per transfer, so cap how many a single ticket looks up
+const MAX_TICKET_TRANSFER_DETAILS = 10
+
+async function handleCreateTicket(companyId: string, customerName: string, transfers: DwollaTransfer[]) {
+  try {
+    const hubspotToken = await getAccessToken('hubspot')
+    
+    if (!hubspotToken) {
+      throw new Error('Not authenticated with HubSpot')
+    }
+
+    // Transfer lists don't include the ACH return code, so look up each failure
+    const client = new EnhancedDwollaClient()
+    const lines: string[] = []
+    for (const [index, transfer] of transfers.entries()) {
+      let failureCode = 'unknown'
+      if (index < MAX_TICKET_TRANSFER_DETAILS) {
+        try {
+          const detail = await client.getTransferById(transfer.id)
+          if (detail.failure) {
+            failureCode = `${detail.failure.code} - ${detail.failure.description}`
+          }
+        } catch (error) {
+          logger.warn('Could not load transfer failure', { transferId: transfer.id, error: (error as Error).message })
+        }
+      }
+      lines.push(
+        `Transfer ${transfer.id}: $${transfer.amount.value} ${transfer.amount.currency}, ` +
+        `created ${new Date(transfer.created).toLocaleDateString()}, failure: ${failureCode}`
+      )
+    }
+
+    const subject = `Failed transfers for ${customerName}`
+    const content = [
+      `${transfers.length} failed or returned transfer${transfers.length !== 1 ? 's' : ''} for ${customerName}:`,
+      '',
+      ...lines
+    ].join('\n')
+    
+    const { ticket, ticketUrl } = await crmWriteBackService.createTicket(subject, content, companyId)
+    
+    return {
+      success: true,
+      ticket,
+      ticketUrl
+    }
+  } catch (error) {
+    console.error('Create ticket error:', error)
+    throw error
+  }
+}
+
+async function handleUndoWriteBack(auditId: string) {
+  try {
+    const hubspotToken = await getAccessToken('hubspot')
+    
+    if (!hubspotToken) {
+      throw new Error('Not authenticated with HubSpot')
+    }
+
+    const { company } = await crmWriteBackService.undo(auditId)
+    
+    return {
+      success: true,
+      company
+    }
+  } catch (error) {
+    console.error('Undo write-back error:', error)
+    throw error
+  }
+}
+
+async function handleGetFundingSources(customerId: string) {
+  try {
+    const dwollaToken = await getAccessToken('dwolla')
+    
+    if (!dwollaToken) {
+      throw new Error('Not authenticated with Dwolla')
+    }
+
+    const client = new EnhancedDwollaClient()
+    const response = await client.getCustomerFundingSources(customerId)
+    
+    return {
+      success: true,
+      fundingSources: response._embedded?.['funding-sources'] || []
+    }
+  } catch (error) {
+    console.error('Get funding sources error:', error)
+    throw error
+  }
+}
+
 // Debug handlers
 async function handleGetLogs(filter?: any) {
   const logs = await logger.getLogs(filter)
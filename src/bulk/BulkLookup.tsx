@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  BulkLookupJob,
+  MAX_BULK_QUERIES,
+  bulkLookupService,
+  getLinkStatusLabel,
+  parseBulkInput,
+  toBulkLookupCsv
+} from '../utils/bulkLookup'
+import { downloadFile } from '../utils/export'
+import './BulkLookup.css'
+
+const BulkLookup: React.FC = () => {
+  const [input, setInput] = useState('')
+  const [job, setJob] = useState<BulkLookupJob | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  useEffect(() => {
+    bulkLookupService.getJob().then(setJob)
+    return bulkLookupService.onJobChange(setJob)
+  }, [])
+
+  const queries = useMemo(() => parseBulkInput(input), [input])
+  const isActive = job?.status === 'running' || job?.status === 'paused'
+  const processed = job ? job.rows.filter(row => row.status !== 'queued').length : 0
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setInput(await file.text())
+    e.target.value = ''
+  }
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setStarting(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'START_BULK_LOOKUP', queries })
+      if (!response.success) {
+        setError(response.error || 'Failed to start bulk lookup')
+        return
+      }
+      setJob(response.job)
+      setInput('')
+    } catch (err) {
+      setError(`Failed to start bulk lookup: ${(err as Error).message}`)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'CANCEL_BULK_LOOKUP' })
+    } catch (err) {
+      setError(`Failed to cancel bulk lookup: ${(err as Error).message}`)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!job) return
+    try {
+      await downloadFile(
+        toBulkLookupCsv(job),
+        `bulk-lookup-${new Date(job.createdAt).toISOString().slice(0, 10)}.csv`,
+        'text/csv'
+      )
+    } catch (err) {
+      setError(`Export failed: ${(err as Error).message}`)
+    }
+  }
+
+  return (
+    <div className="bulk-container">
+      <h1 className="bulk-title">Bulk Lookup</h1>
+      <p className="bulk-description">
+        Paste emails, names or IDs (one per line) or upload a CSV with an <code>email</code> column.
+        Lookups run in the background and pause when the hourly HubSpot or Dwolla limits are reached.
+      </p>
+
+      <form className="bulk-input" onSubmit={handleStart}>
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={'jane@example.com\nops@acme.com'}
+          rows={8}
+          aria-label="Queries to look up"
+          disabled={isActive}
+        />
+        <div className="bulk-input-actions">
+          <label className="bulk-secondary-button">
+            Upload CSV
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} hidden disabled={isActive} />
+          </label>
+          <span className="bulk-count">
+            {queries.length} {queries.length === 1 ? 'query' : 'queries'}
+            {queries.length > MAX_BULK_QUERIES && ` (limit ${MAX_BULK_QUERIES})`}
+          </span>
+          <button
+            type="submit"
+            className="bulk-primary-button"
+            disabled={isActive || starting || queries.length === 0 || queries.length > MAX_BULK_QUERIES}
+          >
+            {starting ? 'Starting...' : 'Look up'}
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="bulk-message error" role="alert">{error}</div>}
+
+      {job && (
+        <section className="bulk-results">
+          <div className="bulk-results-header">
+            <div className="bulk-progress" role="status" aria-live="polite">
+              <strong>{processed} of {job.rows.length}</strong> processed
+              {job.status === 'paused' && job.resumeAt && (
+                <span> · Paused for rate limits until {new Date(job.resumeAt).toLocaleTimeString()}</span>
+              )}
+              {job.status === 'cancelled' && <span> · Cancelled</span>}
+              {job.status === 'completed' && <span> · Completed</span>}
+            </div>
+            <div className="bulk-results-actions">
+              {isActive && (
+                <button type="button" className="bulk-secondary-button" onClick={handleCancel}>
+                  Cancel
+                </button>
+              )}
+              <button type="button" className="bulk-secondary-button" onClick={handleExport}>
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          <table className="bulk-table">
+            <thead>
+              <tr>
+                <th>Query</th>
+                <th>Link status</th>
+                <th>HubSpot company</th>
+                <th>Dwolla status</th>
+                <th>Inconsistencies</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.rows.map((row, index) => (
+                <tr key={`${row.query}-${index}`} className={`bulk-row ${row.status}`}>
+                  <td>{row.query}</td>
+                  {row.status === 'done' ? (
+                    <>
+                      <td><span className={`bulk-link-status ${row.linkStatus}`}>{getLinkStatusLabel(row.linkStatus)}</span></td>
+                      <td>{row.companyName || '—'}</td>
+                      <td>{row.dwollaStatus || '—'}</td>
+                      <td>{row.inconsistencyCount}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="bulk-row-note">
+                      {row.status === 'queued' ? 'Queued' : row.error}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  )
+}
+
+export default BulkLookup
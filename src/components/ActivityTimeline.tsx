@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { DwollaEvent } from '../types'
+import { CorrelatedCustomerData } from '../utils/dataCorrelation'
+import { buildActivityTimeline, TimelineSource, TimelineEventType } from '../utils/activityTimeline'
+import './ActivityTimeline.css'
+
+interface ActivityTimelineProps {
+  isVisible: boolean
+  data: CorrelatedCustomerData | null
+  dwollaEvents: DwollaEvent[]
+  eventsTruncated?: boolean
+  loading?: boolean
+  error?: string | null
+  onClose: () => void
+}
+
+const sourceLabels: Record<TimelineSource | 'all', string> = {
+  all: 'All sources',
+  hubspot: 'HubSpot',
+  dwolla: 'Dwolla'
+}
+
+const typeLabels: Record<TimelineEventType | 'all', string> = {
+  all: 'All types',
+  customer: 'Customer',
+  transfer: 'Transfers',
+  funding_source: 'Funding sources',
+  record: 'CRM records'
+}
+
+export const ActivityTimeline: React.FC<ActivityTimelineProps> = ({
+  isVisible,
+  data,
+  dwollaEvents,
+  eventsTruncated = false,
+  loading = false,
+  error,
+  onClose
+}) => {
+  const [sourceFilter, setSourceFilter] = useState<TimelineSource | 'all'>('all')
+  const [typeFilter, setTypeFilter] = useState<TimelineEventType | 'all'>('all')
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isVisible) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isVisible, onClose])
+
+  const timeline = useMemo(
+    () => data ? buildActivityTimeline(data, dwollaEvents) : [],
+    [data, dwollaEvents]
+  )
+
+  const filteredTimeline = timeline.filter(event =>
+    (sourceFilter === 'all' || event.source === sourceFilter) &&
+    (typeFilter === 'all' || event.type === typeFilter)
+  )
+
+  if (!isVisible) return null
+
+  return (
+    <div className="timeline-overlay" onClick={onClose}>
+      <aside
+        className="timeline-drawer"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="timeline-title"
+      >
+        <div className="timeline-header">
+          <h3 id="timeline-title">🕒 Activity Timeline</h3>
+          <button
+            className="close-button"
+            onClick={onClose}
+            aria-label="Close activity timeline"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="timeline-filters">
+          <select
+            value={sourceFilter}
+            onChange={e => setSourceFilter(e.target.value as TimelineSource | 'all')}
+            aria-label="Filter by source"
+          >
+            {Object.entries(sourceLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={typeFilter}
+            onChange={e => setTypeFilter(e.target.value as TimelineEventType | 'all')}
+            aria-label="Filter by type"
+          >
+            {Object.entries(typeLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="timeline-content">
+          {loading && (
+            <div className="timeline-status" role="status" aria-live="polite">
+              Loading activity...
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="timeline-status error" role="alert">{error}</div>
+          )}
+
+          {!loading && !error && filteredTimeline.length === 0 && (
+            <div className="timeline-status">No activity matches these filters</div>
+          )}
+
+          {!loading && filteredTimeline.length > 0 && (
+            <ol className="timeline-list">
+              {filteredTimeline.map(event => (
+                <li key={event.id} className={`timeline-item source-${event.source}`}>
+                  <span className="timeline-dot" aria-hidden="true" />
+                  <div className="timeline-body">
+                    <div className="timeline-title">{event.title}</div>
+                    {event.detail && <div className="timeline-detail">{event.detail}</div>}
+                    <div className="timeline-meta">
+                      <span className="timeline-source">{sourceLabels[event.source]}</span>
+                      <time dateTime={event.timestamp}>{new Date(event.timestamp).toLocaleString()}</time>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {!loading && eventsTruncated && (
+            <div className="timeline-status">Older Dwolla events may not be shown.</div>
+          )}
+        </div>
+      </aside>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react'
+import './ConfirmDialog.css'
+
+interface ConfirmDialogProps {
+  isVisible: boolean
+  title: string
+  message: React.ReactNode
+  confirmLabel?: string
+  variant?: 'primary' | 'danger'
+  confirmDisabled?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+  children?: React.ReactNode
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  isVisible,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  variant = 'primary',
+  confirmDisabled = false,
+  onConfirm,
+  onCancel,
+  children
+}) => {
+  // Cancel on Escape
+  useEffect(() => {
+    if (!isVisible) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onCancel()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isVisible, onCancel])
+
+  if (!isVisible) return null
+
+  return (
+    <div className="confirm-dialog-overlay" onClick={onCancel}>
+      <div
+        className="confirm-dialog"
+        onClick={e => e.stopPropagation()}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+      >
+        <h3 id="confirm-dialog-title">{title}</h3>
+        <div className="confirm-dialog-message">{message}</div>
+        {children}
+        <div className="confirm-dialog-actions">
+          <button type="button" className="confirm-dialog-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={`confirm-dialog-confirm ${variant}`}
+            onClick={onConfirm}
+            disabled={confirmDisabled}
+            autoFocus
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
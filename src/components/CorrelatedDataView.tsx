@@ -1,20 +1,125 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { CorrelatedCustomerData } from '../utils/dataCorrelation'
+import { DwollaFundingSource, MicroDepositState } from '../types'
 import { QuickActions } from './QuickActions'
+import { ConfirmDialog } from './ConfirmDialog'
+import { PropertyDiff } from './PropertyDiff'
+import { getOnboardingStatusFix, applyOnboardingStatusFix, OnboardingStatusSyncResult } from '../utils/crmWriteBack'
 import './CorrelatedDataView.css'
 
 interface CorrelatedDataViewProps {
   data: CorrelatedCustomerData
   onSelectCustomer?: (customerId: string) => void
+  onSelectTransfer?: (transferId: string) => void
+  onShowTimeline?: (data: CorrelatedCustomerData) => void
+  isWatched?: boolean
+  onToggleWatch?: (data: CorrelatedCustomerData) => void
+  isPinned?: boolean
+  onTogglePin?: (data: CorrelatedCustomerData) => void
+  // Summary of Dwolla webhook events that refreshed this card while it was open
+  liveUpdate?: string
   loading?: boolean
 }
 
+// Derive micro-deposit progress from the HAL links Dwolla attaches to a funding source
+const getMicroDepositState = (source: DwollaFundingSource): MicroDepositState => {
+  const links = source._links || {}
+  if (links['verify-micro-deposits']) return 'pending'
+  if (links['initiate-micro-deposits']) return 'not_started'
+  if (links['micro-deposits']) return 'completed'
+  return 'not_applicable'
+}
+
+const microDepositLabels: Record<MicroDepositState, string> = {
+  not_started: 'Micro-deposits not initiated',
+  pending: 'Micro-deposits awaiting verification',
+  completed: 'Micro-deposits verified',
+  not_applicable: ''
+}
+
+const linkTypeLabels: Record<CorrelatedCustomerData['correlation']['linkType'], string> = {
+  dwolla_id: 'Linked by dwolla_id on the HubSpot company',
+  email: 'Matched by contact email',
+  domain: 'Matched by email domain to company domain',
+  name_match: 'Matched by similar business name',
+  none: 'Not linked'
+}
+
 export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
   data,
   onSelectCustomer,
+  onSelectTransfer,
+  onShowTimeline,
+  isWatched = false,
+  onToggleWatch,
+  isPinned = false,
+  onTogglePin,
+  liveUpdate,
   loading = false
 }) => {
-  const { hubspot, dwolla, correlation } = data
+  const [optimisticData, setOptimisticData] = useState<CorrelatedCustomerData | null>(null)
+  const [undoAuditId, setUndoAuditId] = useState<string | null>(null)
+  const [undoing, setUndoing] = useState(false)
+  const [writeBackError, setWriteBackError] = useState<string | null>(null)
+  const [showStatusFix, setShowStatusFix] = useState(false)
+  const [createdTicket, setCreatedTicket] = useState<{ id: string, url?: string } | null>(null)
+
+  // A different record pair means any pending write-back state belongs to another card
+  const companyId = data.hubspot.company?.id
+  const customerId = data.dwolla.customer?.id
+  useEffect(() => {
+    setOptimisticData(null)
+    setUndoAuditId(null)
+    setWriteBackError(null)
+    setShowStatusFix(false)
+    setCreatedTicket(null)
+  }, [companyId, customerId])
+
+  // Write-backs only change the HubSpot company, so Dwolla data stays current from props
+  const viewData: CorrelatedCustomerData = optimisticData
+    ? { ...data, hubspot: { ...data.hubspot, company: optimisticData.hubspot.company }, correlation: optimisticData.correlation }
+    : data
+  const { hubspot, dwolla, correlation } = viewData
+
+  const statusFix = getOnboardingStatusFix(viewData)
+
+  const handleFixStatus = async () => {
+    if (!statusFix) return
+
+    setShowStatusFix(false)
+    setWriteBackError(null)
+    setOptimisticData(applyOnboardingStatusFix(viewData, statusFix.onboardingStatus))
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'SYNC_ONBOARDING_STATUS', updates: [statusFix] })
+      const result: OnboardingStatusSyncResult | undefined = response?.results?.[0]
+      if (!response?.success || !result?.success) {
+        throw new Error(result?.error || response?.error || 'Failed to update HubSpot')
+      }
+      setUndoAuditId(result.auditId!)
+    } catch (error) {
+      setOptimisticData(null)
+      setWriteBackError((error as Error).message)
+    }
+  }
+
+  const handleUndo = async () => {
+    if (!undoAuditId) return
+
+    setUndoing(true)
+    setWriteBackError(null)
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'UNDO_WRITE_BACK', auditId: undoAuditId })
+      if (!response?.success) {
+        throw new Error(response?.error || 'Undo failed')
+      }
+      setOptimisticData(null)
+      setUndoAuditId(null)
+    } catch (error) {
+      setWriteBackError((error as Error).message)
+    } finally {
+      setUndoing(false)
+    }
+  }
   
   // Determine the display name
   const displayName = hubspot.company?.properties.name || 
@@ -28,6 +133,8 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
         return '🔗'
       case 'email':
         return '📧'
+      case 'domain':
+        return '🌐'
       case 'name_match':
         return '👥'
       default:
@@ -46,7 +153,7 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
     else className += ' low'
     
     return (
-      <span className={className}>
+      <span className={className} title={linkTypeLabels[correlation.linkType]}>
         {confidence}% match {getLinkIcon()}
       </span>
     )
@@ -56,8 +163,45 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
     <div className={`correlated-data-view ${correlation.isLinked ? 'linked' : 'unlinked'}`}>
       <div className="correlation-header">
         <h3 className="customer-name">{displayName || 'Unknown Customer'}</h3>
-        {getConfidenceBadge()}
+        <div className="correlation-header-actions">
+          {onTogglePin && (
+            <button
+              className={`pin-button ${isPinned ? 'pinned' : ''}`}
+              onClick={() => onTogglePin(viewData)}
+              aria-pressed={isPinned}
+              title={isPinned ? 'Unpin this customer' : 'Keep this customer in view while you search'}
+            >
+              {isPinned ? '📌 Pinned' : '📌 Pin'}
+            </button>
+          )}
+          {onToggleWatch && dwolla.customer && (
+            <button
+              className={`watch-button ${isWatched ? 'watching' : ''}`}
+              onClick={() => onToggleWatch(viewData)}
+              aria-pressed={isWatched}
+              title={isWatched ? 'Stop watching this customer' : 'Get notified when Dwolla status or transfers change'}
+            >
+              {isWatched ? '👁️ Watching' : '👁️ Watch'}
+            </button>
+          )}
+          {onShowTimeline && (
+            <button
+              className="timeline-button"
+              onClick={() => onShowTimeline(viewData)}
+              title="Show HubSpot and Dwolla activity"
+            >
+              🕒 Timeline
+            </button>
+          )}
+          {getConfidenceBadge()}
+        </div>
       </div>
+
+      {liveUpdate && (
+        <div className="live-update-banner" role="status" aria-live="polite">
+          🔔 {liveUpdate}
+        </div>
+      )}
       
       <div className="data-panels">
         {/* HubSpot Panel */}
@@ -96,6 +240,9 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
                     {contact.properties.firstname} {contact.properties.lastname}
                   </div>
                   <div className="contact-email">{contact.properties.email}</div>
+                  {(contact.properties.phone || contact.properties.mobilephone) && (
+                    <div className="contact-email">{contact.properties.phone || contact.properties.mobilephone}</div>
+                  )}
                 </div>
               ))}
             </div>
@@ -142,6 +289,12 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
                 <span className="label">Email:</span>
                 <span className="value">{dwolla.customer.email}</span>
               </div>
+              {dwolla.customer.phone && (
+                <div className="data-field">
+                  <span className="label">Phone:</span>
+                  <span className="value">{dwolla.customer.phone}</span>
+                </div>
+              )}
               <div className="data-field">
                 <span className="label">Type:</span>
                 <span className="value">{dwolla.customer.type}</span>
@@ -160,6 +313,57 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
             </div>
           )}
           
+          {dwolla.customer && dwolla.transfers.length > 0 && (
+            <div className="transfers-data" role="list" aria-label="Recent transfers">
+              {dwolla.transfers.map(transfer => (
+                <div
+                  key={transfer.id}
+                  className="transfer-row clickable"
+                  onClick={() => onSelectTransfer?.(transfer.id)}
+                  onKeyDown={(e) => e.key === 'Enter' && onSelectTransfer?.(transfer.id)}
+                  tabIndex={0}
+                  role="listitem"
+                  aria-label={`View transfer of $${transfer.amount.value}, ${transfer.status}`}
+                >
+                  <span className="transfer-row-amount">${transfer.amount.value}</span>
+                  <span className={`transfer-row-status status-${transfer.status}`}>{transfer.status}</span>
+                  <span className="transfer-row-date">{new Date(transfer.created).toLocaleDateString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {dwolla.customer && dwolla.fundingSources && (
+            <div className="funding-sources-data">
+              <h5>Funding Sources ({dwolla.fundingSources.length})</h5>
+              {dwolla.fundingSources.length === 0 && (
+                <div className="funding-source-empty">No funding sources attached</div>
+              )}
+              {dwolla.fundingSources.map(source => {
+                const status = source.removed ? 'removed' : source.status
+                const microDepositState = getMicroDepositState(source)
+                
+                return (
+                  <div key={source.id} className={`funding-source-item ${source.removed ? 'removed' : ''}`}>
+                    <div className="funding-source-header">
+                      <span className="funding-source-name">{source.bankName || source.name}</span>
+                      <span className={`funding-source-status status-${status}`}>{status}</span>
+                    </div>
+                    <div className="funding-source-type">
+                      {source.bankAccountType ? `${source.type} · ${source.bankAccountType}` : source.type}
+                      {source.bankName && source.name !== source.bankName && ` · ${source.name}`}
+                    </div>
+                    {microDepositState !== 'not_applicable' && (
+                      <div className={`funding-source-micro-deposits ${microDepositState}`}>
+                        {microDepositLabels[microDepositState]}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+          
           {!dwolla.customer && (
             <div className="no-data-message">No Dwolla data found</div>
           )}
@@ -176,6 +380,16 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
                 {inconsistency.severity === 'error' ? '❌' : '⚠️'}
               </span>
               <span className="inconsistency-message">{inconsistency.message}</span>
+              {inconsistency.field === 'status' && statusFix && (
+                <button
+                  type="button"
+                  className="inconsistency-fix"
+                  onClick={() => setShowStatusFix(true)}
+                  aria-label={`Set HubSpot onboarding status to ${statusFix.onboardingStatus}`}
+                >
+                  Fix in HubSpot
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -186,18 +400,76 @@ export const CorrelatedDataView: React.FC<CorrelatedDataViewProps> = ({
         <div className="suggestion-panel">
           <span className="suggestion-icon">💡</span>
           <span className="suggestion-text">
-            These accounts might be related. Consider linking them by adding Dwolla ID to HubSpot.
+            These accounts might be related. Use Link Accounts below to add the Dwolla ID to HubSpot.
           </span>
         </div>
       )}
 
       {/* Quick Actions */}
+      {statusFix && (
+        <ConfirmDialog
+          isVisible={showStatusFix}
+          title="Update HubSpot onboarding status?"
+          message={`Dwolla shows this customer as "${dwolla.customer?.status}". This updates the HubSpot company to match.`}
+          confirmLabel="Update HubSpot"
+          onConfirm={handleFixStatus}
+          onCancel={() => setShowStatusFix(false)}
+        >
+          <PropertyDiff
+            changes={[{
+              label: statusFix.companyName,
+              property: 'onboarding_status',
+              previousValue: statusFix.previousStatus,
+              newValue: statusFix.onboardingStatus
+            }]}
+          />
+        </ConfirmDialog>
+      )}
+
+      {undoAuditId && (
+        <div className="write-back-banner" role="status">
+          <span>✅ HubSpot company updated.</span>
+          <button type="button" className="write-back-action" onClick={handleUndo} disabled={undoing}>
+            {undoing ? 'Undoing...' : 'Undo'}
+          </button>
+        </div>
+      )}
+      {createdTicket && (
+        <div className="write-back-banner" role="status">
+          <span>🎫 Support ticket #{createdTicket.id} created.</span>
+          {createdTicket.url && (
+            <button
+              type="button"
+              className="write-back-action"
+              onClick={() => chrome.tabs.create({ url: createdTicket.url })}
+            >
+              Open in HubSpot
+            </button>
+          )}
+        </div>
+      )}
+      {writeBackError && (
+        <div className="write-back-banner error" role="alert">
+          {writeBackError}
+        </div>
+      )}
+
       <QuickActions 
-        data={data}
-        onActionComplete={(action, success) => {
+        data={viewData}
+        onOptimisticUpdate={setOptimisticData}
+        onActionComplete={(action, success, result) => {
           if (success) {
             console.log(`Action ${action} completed successfully`)
           }
+          if (result?.data?.ticketId) {
+            setCreatedTicket({ id: result.data.ticketId, url: result.data.ticketUrl })
+          }
+          if (result?.data?.auditId) {
+            setWriteBackError(null)
+            setUndoAuditId(result.data.auditId)
+          } else if (!success && result?.error) {
+            setWriteBackError(result.error)
+          }
         }}
       />
     </div>
@@ -7,13 +7,26 @@ interface HeaderProps {
   showDebugToggle?: boolean
   onDebugToggle?: () => void
   showDebug?: boolean
+  onOpenSettings?: () => void
+  onOpenWatchlist?: () => void
+  onOpenBulkLookup?: () => void
+  onOpenFullView?: () => void
+  onOpenSidePanel?: () => void
+  // Unseen watchlist changes, also shown on the extension badge
+  watchlistAlerts?: number
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
   title, 
   showDebugToggle = false, 
   onDebugToggle,
-  showDebug = false
+  showDebug = false,
+  onOpenSettings,
+  onOpenWatchlist,
+  onOpenBulkLookup,
+  onOpenFullView,
+  onOpenSidePanel,
+  watchlistAlerts = 0
 }) => {
   return (
     <div className="header-container">
@@ -21,17 +34,70 @@ export const Header: React.FC<HeaderProps> = ({
         <img src={logo} alt="Company Logo" className="header-logo" />
         <h1 className="header-title">{title}</h1>
       </div>
-      {showDebugToggle && (
-        <button
-          onClick={onDebugToggle}
-          className="debug-toggle"
-          title="Toggle Debug Panel"
-          aria-label="Toggle Debug Panel"
-          aria-pressed={showDebug}
-        >
-          🐛
-        </button>
-      )}
+      <div className="header-actions">
+        {onOpenSidePanel && (
+          <button
+            onClick={onOpenSidePanel}
+            className="side-panel-toggle"
+            title="Dock in side panel"
+            aria-label="Open in side panel"
+          >
+            ◨
+          </button>
+        )}
+        {onOpenFullView && (
+          <button
+            onClick={onOpenFullView}
+            className="full-view-toggle"
+            title="Open in full view"
+            aria-label="Open in full view"
+          >
+            ⤢
+          </button>
+        )}
+        {onOpenBulkLookup && (
+          <button
+            onClick={onOpenBulkLookup}
+            className="bulk-lookup-toggle"
+            title="Bulk Lookup"
+            aria-label="Open bulk lookup in a new tab"
+          >
+            📋
+          </button>
+        )}
+        {onOpenWatchlist && (
+          <button
+            onClick={onOpenWatchlist}
+            className="watchlist-toggle"
+            title="Watchlist"
+            aria-label={watchlistAlerts > 0 ? `Open watchlist, ${watchlistAlerts} new changes` : 'Open watchlist'}
+          >
+            👁️
+            {watchlistAlerts > 0 && <span className="watchlist-alerts">{watchlistAlerts}</span>}
+          </button>
+        )}
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            className="settings-toggle"
+            title="Correlation Settings"
+            aria-label="Open correlation settings"
+          >
+            ⚙️
+          </button>
+        )}
+        {showDebugToggle && (
+          <button
+            onClick={onDebugToggle}
+            className="debug-toggle"
+            title="Toggle Debug Panel"
+            aria-label="Toggle Debug Panel"
+            aria-pressed={showDebug}
+          >
+            🐛
+          </button>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
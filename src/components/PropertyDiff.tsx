@@ -0,0 +1,33 @@
+import React from 'react'
+import './PropertyDiff.css'
+
+export interface PropertyChange {
+  label: string
+  property: string
+  previousValue?: string | null
+  newValue: string
+}
+
+interface PropertyDiffProps {
+  changes: PropertyChange[]
+}
+
+// Old vs. new values of HubSpot properties about to be written
+export const PropertyDiff: React.FC<PropertyDiffProps> = ({ changes }) => {
+  return (
+    <ul className="property-diff" aria-label="Proposed changes">
+      {changes.map((change, index) => (
+        <li key={`${change.label}-${change.property}-${index}`} className="property-diff-row">
+          <div className="property-diff-label">
+            {change.label} <code>{change.property}</code>
+          </div>
+          <div className="property-diff-values">
+            <del className="property-diff-old">{change.previousValue || '(empty)'}</del>
+            <span aria-hidden="true">→</span>
+            <ins className="property-diff-new">{change.newValue}</ins>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -1,20 +1,26 @@
 import React, { useState, useCallback, useMemo } from 'react'
 import { CorrelatedCustomerData } from '../utils/dataCorrelation'
-import { quickActionsService, ActionTemplate } from '../utils/quickActionsService'
+import { quickActionsService, ActionTemplate, ActionResult } from '../utils/quickActionsService'
 import { logger } from '../utils/logger'
+import { ConfirmDialog } from './ConfirmDialog'
 import './QuickActions.css'
 
 interface QuickActionsProps {
   data: CorrelatedCustomerData
-  onActionComplete?: (action: string, success: boolean) => void
+  onActionComplete?: (action: string, success: boolean, result?: ActionResult) => void
+  // Receives the expected result of a write while it runs, and null to roll it back
+  onOptimisticUpdate?: (data: CorrelatedCustomerData | null) => void
 }
 
 export const QuickActions: React.FC<QuickActionsProps> = ({
   data,
-  onActionComplete
+  onActionComplete,
+  onOptimisticUpdate
 }) => {
   const [loading, setLoading] = useState<Set<string>>(new Set())
   const [actionResults, setActionResults] = useState<Map<string, { success: boolean; message?: string }>>(new Map())
+  const [pendingConfirmation, setPendingConfirmation] = useState<ActionTemplate | null>(null)
+  const [confirmationInput, setConfirmationInput] = useState('')
 
   // Get applicable actions for current data
   const availableActions = useMemo(() => {
@@ -22,11 +28,19 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
   }, [data])
 
   // Execute action with loading state and result tracking
-  const executeAction = useCallback(async (template: ActionTemplate) => {
+  const executeAction = useCallback(async (template: ActionTemplate, input?: string) => {
     setLoading(prev => new Set([...prev, template.id]))
     
+    if (template.optimisticUpdate) {
+      onOptimisticUpdate?.(template.optimisticUpdate(data))
+    }
+    
     try {
-      const result = await quickActionsService.executeAction(template.id, data)
+      const result = await quickActionsService.executeAction(template.id, data, input)
+      
+      if (!result.success && template.optimisticUpdate) {
+        onOptimisticUpdate?.(null)
+      }
       
       // Update action results
       setActionResults(prev => new Map([...prev, [template.id, {
@@ -45,10 +59,13 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
         }, 2000)
       }
       
-      onActionComplete?.(template.id, result.success)
+      onActionComplete?.(template.id, result.success, result)
       
     } catch (error) {
       logger.error('Action execution failed', error as Error, { actionId: template.id })
+      if (template.optimisticUpdate) {
+        onOptimisticUpdate?.(null)
+      }
       setActionResults(prev => new Map([...prev, [template.id, {
         success: false,
         message: 'Action failed'
@@ -61,7 +78,19 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
         return newSet
       })
     }
-  }, [data, onActionComplete])
+  }, [data, onActionComplete, onOptimisticUpdate])
+
+  // Actions that change data ask for confirmation first
+  const handleActionClick = useCallback((template: ActionTemplate) => {
+    if (template.confirm) {
+      setConfirmationInput(template.confirm(data).editableText ?? '')
+      setPendingConfirmation(template)
+    } else {
+      executeAction(template)
+    }
+  }, [data, executeAction])
+
+  const confirmation = pendingConfirmation?.confirm?.(data)
 
   // Get button display properties
   const getButtonProps = useCallback((template: ActionTemplate) => {
@@ -143,7 +172,7 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
                   <button
                     key={template.id}
                     className={`action-button ${buttonProps.variant} ${buttonProps.isLoading ? 'loading' : ''}`}
-                    onClick={() => executeAction(template)}
+                    onClick={() => handleActionClick(template)}
                     disabled={buttonProps.disabled}
                     title={template.description}
                     aria-label={template.description}
@@ -160,6 +189,31 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
         )
       })}
       
+      {pendingConfirmation && confirmation && (
+        <ConfirmDialog
+          isVisible
+          title={confirmation.title}
+          message={confirmation.message}
+          confirmLabel={confirmation.confirmLabel}
+          confirmDisabled={confirmation.editableText !== undefined && !confirmationInput.trim()}
+          onConfirm={() => {
+            setPendingConfirmation(null)
+            executeAction(pendingConfirmation, confirmation.editableText !== undefined ? confirmationInput : undefined)
+          }}
+          onCancel={() => setPendingConfirmation(null)}
+        >
+          {confirmation.editableText !== undefined && (
+            <textarea
+              className="confirm-dialog-input"
+              value={confirmationInput}
+              onChange={e => setConfirmationInput(e.target.value)}
+              rows={12}
+              aria-label={confirmation.title}
+            />
+          )}
+        </ConfirmDialog>
+      )}
+      
       {/* Show warning if there are critical status actions */}
       {availableActions.some(a => a.variant === 'danger' || a.variant === 'warning') && (
         <div className="actions-warning">
@@ -143,6 +143,8 @@ export const SearchHistory: React.FC<SearchHistoryProps> = ({
       case 'business': return '🏢'
       case 'name': return '👤'
       case 'phone': return '📞'
+      case 'dwolla_id': return '🆔'
+      case 'hubspot_id': return '#️⃣'
       default: return '🔍'
     }
   }
@@ -0,0 +1,163 @@
+import React, { useEffect } from 'react'
+import { DwollaTransferDetail, DwollaFundingSource } from '../types'
+import './TransferDetailDrawer.css'
+
+interface TransferDetailDrawerProps {
+  isVisible: boolean
+  transfer: DwollaTransferDetail | null
+  loading?: boolean
+  error?: string | null
+  onClose: () => void
+}
+
+const formatFundingSource = (source?: Partial<DwollaFundingSource> | null): string | null => {
+  if (!source) return null
+  const name = source.bankName || source.name || source.id || 'Unknown'
+  const details = [source.bankAccountType || source.type, source.removed ? 'removed' : source.status]
+    .filter(Boolean)
+    .join(', ')
+  return details ? `${name} (${details})` : name
+}
+
+export const TransferDetailDrawer: React.FC<TransferDetailDrawerProps> = ({
+  isVisible,
+  transfer,
+  loading = false,
+  error,
+  onClose
+}) => {
+  // Close on Escape
+  useEffect(() => {
+    if (!isVisible) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isVisible, onClose])
+
+  if (!isVisible) return null
+
+  const sourceFundingSource = formatFundingSource(transfer?.sourceFundingSource)
+  const destinationFundingSource = formatFundingSource(transfer?.destinationFundingSource)
+  const clearing = [
+    transfer?.clearing?.source && `Source: ${transfer.clearing.source}`,
+    transfer?.clearing?.destination && `Destination: ${transfer.clearing.destination}`
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="transfer-drawer-overlay" onClick={onClose}>
+      <aside
+        className="transfer-drawer"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="transfer-drawer-title"
+      >
+        <div className="transfer-drawer-header">
+          <h3 id="transfer-drawer-title">💸 Transfer Details</h3>
+          <button
+            className="close-button"
+            onClick={onClose}
+            aria-label="Close transfer details"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="transfer-drawer-content">
+          {loading && (
+            <div className="transfer-drawer-loading" role="status" aria-live="polite">
+              Loading transfer details...
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="transfer-drawer-error" role="alert">{error}</div>
+          )}
+
+          {!loading && !error && transfer && (
+            <>
+              <div className="transfer-drawer-summary">
+                <span className="transfer-drawer-amount">${transfer.amount.value}</span>
+                <span className={`transfer-drawer-status status-${transfer.status}`}>
+                  {transfer.status}
+                </span>
+              </div>
+
+              {transfer.failure && (
+                <div className="transfer-failure">
+                  <div className="transfer-failure-code">{transfer.failure.code}</div>
+                  <div className="transfer-failure-details">
+                    <div className="transfer-failure-description">{transfer.failure.description}</div>
+                    {transfer.failure.explanation && (
+                      <div className="transfer-failure-explanation">{transfer.failure.explanation}</div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="data-field">
+                <span className="label">Transfer ID:</span>
+                <span className="value linked-id">{transfer.id}</span>
+              </div>
+              <div className="data-field">
+                <span className="label">Created:</span>
+                <span className="value">{new Date(transfer.created).toLocaleString()}</span>
+              </div>
+              {transfer.individualAchId && (
+                <div className="data-field">
+                  <span className="label">Individual ACH ID:</span>
+                  <span className="value linked-id">{transfer.individualAchId}</span>
+                </div>
+              )}
+              {clearing && (
+                <div className="data-field">
+                  <span className="label">Clearing:</span>
+                  <span className="value">{clearing}</span>
+                </div>
+              )}
+              {sourceFundingSource && (
+                <div className="data-field">
+                  <span className="label">Source Funding Source:</span>
+                  <span className="value">{sourceFundingSource}</span>
+                </div>
+              )}
+              {destinationFundingSource && (
+                <div className="data-field">
+                  <span className="label">Destination Funding Source:</span>
+                  <span className="value">{destinationFundingSource}</span>
+                </div>
+              )}
+              {transfer.correlationId && (
+                <div className="data-field">
+                  <span className="label">Correlation ID:</span>
+                  <span className="value linked-id">{transfer.correlationId}</span>
+                </div>
+              )}
+
+              <div className="transfer-fees">
+                <h5>Fees</h5>
+                {transfer.fees && transfer.fees.length > 0 ? (
+                  transfer.fees.map((fee, index) => (
+                    <div key={fee.id || index} className="transfer-fee-item">
+                      <span>${fee.amount.value}</span>
+                      {fee.status && <span className={`status-${fee.status}`}>{fee.status}</span>}
+                    </div>
+                  ))
+                ) : (
+                  <div className="transfer-fee-empty">No fees charged</div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  )
+}
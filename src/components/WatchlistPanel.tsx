@@ -0,0 +1,174 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { WatchedCustomer, WatchlistChange, watchlistService } from '../utils/watchlist'
+import './WatchlistPanel.css'
+
+interface WatchlistPanelProps {
+  isVisible: boolean
+  onClose: () => void
+  onSelectCustomer: (customerId: string) => void
+  onWatchlistChange: (watchlist: WatchedCustomer[]) => void
+}
+
+const formatRelativeTime = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / (1000 * 60))
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`
+  return new Date(timestamp).toLocaleDateString()
+}
+
+export const WatchlistPanel: React.FC<WatchlistPanelProps> = ({
+  isVisible,
+  onClose,
+  onSelectCustomer,
+  onWatchlistChange
+}) => {
+  const [watchlist, setWatchlist] = useState<WatchedCustomer[]>([])
+  const [changes, setChanges] = useState<WatchlistChange[]>([])
+  const [pausedAt, setPausedAt] = useState<number | null>(null)
+
+  // Opening the panel counts as seeing the changes, which clears the badge
+  const loadWatchlist = useCallback(async () => {
+    const [items, recorded, paused] = await Promise.all([
+      watchlistService.getWatchlist(),
+      watchlistService.getChanges(),
+      watchlistService.getPausedAt()
+    ])
+    setWatchlist(items)
+    setChanges(recorded)
+    setPausedAt(paused)
+    await watchlistService.markChangesSeen()
+  }, [])
+
+  useEffect(() => {
+    if (isVisible) {
+      loadWatchlist()
+    }
+  }, [isVisible, loadWatchlist])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isVisible) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isVisible, onClose])
+
+  const handleRemove = async (customerId: string) => {
+    await watchlistService.unwatch(customerId)
+    const updated = watchlist.filter(item => item.customerId !== customerId)
+    setWatchlist(updated)
+    onWatchlistChange(updated)
+  }
+
+  const handleClearChanges = async () => {
+    await watchlistService.clearChanges()
+    setChanges([])
+  }
+
+  const handleSelect = (customerId: string) => {
+    onSelectCustomer(customerId)
+    onClose()
+  }
+
+  if (!isVisible) return null
+
+  return (
+    <div className="watchlist-overlay" onClick={onClose}>
+      <div
+        className="watchlist-panel"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="watchlist-title"
+      >
+        <div className="watchlist-header">
+          <h3 id="watchlist-title">👁️ Watchlist</h3>
+          <button
+            className="close-button"
+            onClick={onClose}
+            aria-label="Close watchlist"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="watchlist-content">
+          {pausedAt && watchlist.length > 0 && (
+            <div className="watchlist-paused" role="status">
+              Background checks paused {formatRelativeTime(pausedAt).toLowerCase()} — sign in to HubSpot to resume.
+            </div>
+          )}
+
+          {changes.length > 0 && (
+            <section className="watchlist-section">
+              <div className="watchlist-section-header">
+                <h4>Recent changes</h4>
+                <button type="button" className="watchlist-link-button" onClick={handleClearChanges}>
+                  Clear
+                </button>
+              </div>
+              <ul className="watchlist-list">
+                {changes.map(change => (
+                  <li
+                    key={change.id}
+                    className={`watchlist-change ${change.seen ? '' : 'unseen'}`}
+                    onClick={() => handleSelect(change.customerId)}
+                  >
+                    <div className="watchlist-name">{change.customerName}</div>
+                    <div className="watchlist-description">{change.description}</div>
+                    <div className="watchlist-meta">{formatRelativeTime(change.detectedAt)}</div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="watchlist-section">
+            <div className="watchlist-section-header">
+              <h4>Watching ({watchlist.length})</h4>
+            </div>
+            {watchlist.length === 0 ? (
+              <div className="watchlist-empty">
+                Watch a customer from their card to be notified when their Dwolla status or transfers change.
+              </div>
+            ) : (
+              <ul className="watchlist-list">
+                {watchlist.map(item => (
+                  <li key={item.customerId} className="watchlist-item">
+                    <button
+                      type="button"
+                      className="watchlist-item-main"
+                      onClick={() => handleSelect(item.customerId)}
+                    >
+                      <span className="watchlist-name">{item.name}</span>
+                      <span className="watchlist-meta">
+                        <span className={`watchlist-status ${item.status}`}>{item.status}</span>
+                        Checked {formatRelativeTime(item.lastCheckedAt)}
+                      </span>
+                    </button>
+                    <button
+                      type="button"
+                      className="watchlist-link-button"
+                      onClick={() => handleRemove(item.customerId)}
+                      aria-label={`Stop watching ${item.name}`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { CorrelatedDataView } from '../components/CorrelatedDataView'
+import { SearchHistory } from '../components/SearchHistory'
+import { Header } from '../components/Header'
+import { SkeletonCorrelatedData } from '../components/Skeleton'
+import { TransferDetailDrawer } from '../components/TransferDetailDrawer'
+import { CorrelatedSearchResults, DwollaTransferDetail } from '../types'
+import { CorrelatedCustomerData } from '../utils/dataCorrelation'
+import { flattenCorrelatedData, ExportedCustomerRow } from '../utils/export'
+import { searchHistoryService } from '../utils/searchHistory'
+import { sanitizeSearchQuery, detectAndValidateQueryType } from '../utils/validation'
+import { useMessageHandler } from '../hooks/useMessageHandler'
+import { useCustomerDetails, applyCustomerDetails } from '../hooks/useCustomerDetails'
+import { logger } from '../utils/logger'
+import './Dashboard.css'
+
+// Kept in local storage so a reload restores the view even after the service worker's idle
+// clear of session storage, and discarded once it has not been saved for STATE_TTL
+const STATE_KEY = 'dashboard_state'
+const STATE_TTL = 8 * 60 * 60 * 1000 // 8 hours
+const MAX_COMPARED = 4
+
+interface DashboardState {
+  query: string
+  results: CorrelatedSearchResults | null
+  compared: CorrelatedCustomerData[]
+  savedAt: number
+}
+
+const getCustomerKey = (data: CorrelatedCustomerData): string =>
+  `${data.hubspot.company?.id || 'no-company'}-${data.dwolla.customer?.id || 'no-customer'}`
+
+const comparisonFields: Array<{ key: keyof ExportedCustomerRow, label: string }> = [
+  { key: 'hubspotCompanyName', label: 'HubSpot company' },
+  { key: 'hubspotOnboardingStatus', label: 'Onboarding status' },
+  { key: 'dwollaCustomerName', label: 'Dwolla customer' },
+  { key: 'dwollaStatus', label: 'Dwolla status' },
+  { key: 'linkType', label: 'Link type' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'inconsistencies', label: 'Inconsistencies' },
+  { key: 'transferCount', label: 'Transfers' },
+  { key: 'processedTotal', label: 'Processed total' },
+  { key: 'pendingTotal', label: 'Pending total' },
+  { key: 'failedTransferCount', label: 'Failed transfers' }
+]
+
+const Dashboard: React.FC = () => {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [lastSearchQuery, setLastSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<CorrelatedSearchResults | null>(null)
+  const [compared, setCompared] = useState<CorrelatedCustomerData[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadingTransfers, setLoadingTransfers] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showSearchHistory, setShowSearchHistory] = useState(false)
+  const [restored, setRestored] = useState(false)
+  const [showTransferDetail, setShowTransferDetail] = useState(false)
+  const [transferDetail, setTransferDetail] = useState<DwollaTransferDetail | null>(null)
+  const [transferDetailLoading, setTransferDetailLoading] = useState(false)
+  const [transferDetailError, setTransferDetailError] = useState<string | null>(null)
+
+  const { sendMessage } = useMessageHandler()
+  // Separate so opening a transfer cannot cancel a search still in flight
+  const { sendMessage: sendTransferMessage } = useMessageHandler()
+  const { loadCustomerDetails } = useCustomerDetails()
+
+  const runSearch = useCallback(async (query: string) => {
+    const sanitized = sanitizeSearchQuery(query)
+    const queryType = detectAndValidateQueryType(sanitized)
+    if (!queryType.isValid) {
+      setError(queryType.error || 'Invalid query format')
+      return
+    }
+
+    setSearchQuery(sanitized)
+    setLastSearchQuery(sanitized)
+    setLoading(true)
+    setError(null)
+    const startTime = Date.now()
+
+    try {
+      // The page stays open, so searches can take longer than the popup allows
+      const response = await sendMessage<any>({
+        type: 'SEARCH_CUSTOMER',
+        query: sanitized,
+        queryType: queryType.type
+      }, { timeout: 30000 })
+
+      if (!response.success) {
+        setError(response.error || 'Search failed')
+        return
+      }
+
+      setSearchResults({
+        correlatedData: response.correlatedData,
+        summary: response.summary,
+        continuation: response.continuation
+      })
+      await searchHistoryService.addSearch({
+        query: sanitized,
+        queryType: queryType.type as any,
+        resultCount: response.summary?.totalResults || 0,
+        linkedAccounts: response.summary?.linkedAccounts || 0,
+        searchDuration: Date.now() - startTime
+      })
+    } catch (err) {
+      logger.error('Dashboard search failed', err as Error, { query: sanitized })
+      setError((err as Error).message || 'Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [sendMessage])
+
+  // Restore the last view, then honour a query passed from the popup's "Open in full view"
+  useEffect(() => {
+    chrome.storage.local.get(STATE_KEY).then(result => {
+      const stored: DashboardState | undefined = result[STATE_KEY]
+      const saved = stored && Date.now() - stored.savedAt <= STATE_TTL ? stored : undefined
+      if (saved) {
+        setSearchQuery(saved.query)
+        setLastSearchQuery(saved.query)
+        setSearchResults(saved.results)
+        setCompared(saved.compared)
+      }
+      setRestored(true)
+
+      const query = new URLSearchParams(window.location.search).get('q')
+      if (query && query !== saved?.query) {
+        runSearch(query)
+      }
+    })
+  }, [runSearch])
+
+  useEffect(() => {
+    if (!restored) return
+    const state: DashboardState = { query: lastSearchQuery, results: searchResults, compared, savedAt: Date.now() }
+    chrome.storage.local.set({ [STATE_KEY]: state }).catch(err => {
+      logger.warn('Failed to save dashboard state', { error: (err as Error).message })
+    })
+  }, [restored, lastSearchQuery, searchResults, compared])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    runSearch(searchQuery)
+  }
+
+  const handleSelectCustomer = useCallback(async (customerId: string) => {
+    setLoadingTransfers(true)
+    try {
+      const details = await loadCustomerDetails(customerId)
+      const withDetails = applyCustomerDetails(customerId, details)
+      setSearchResults(current => current && { ...current, correlatedData: current.correlatedData.map(withDetails) })
+      setCompared(current => current.map(withDetails))
+
+      if (!details.transfers) {
+        setError('Failed to load transfer history')
+      } else if (!details.fundingSources) {
+        setError('Failed to load funding sources')
+      }
+    } finally {
+      setLoadingTransfers(false)
+    }
+  }, [loadCustomerDetails])
+
+  const handleSelectTransfer = useCallback(async (transferId: string) => {
+    setShowTransferDetail(true)
+    setTransferDetail(null)
+    setTransferDetailError(null)
+    setTransferDetailLoading(true)
+    try {
+      const response = await sendTransferMessage<any>({
+        type: 'GET_TRANSFER_DETAILS',
+        transferId
+      }, { timeout: 20000 })
+
+      if (response.success) {
+        setTransferDetail(response.transfer)
+      }
+    } catch (err) {
+      logger.error('Failed to load transfer details', err as Error, { transferId })
+      setTransferDetailError('Failed to load transfer details')
+    } finally {
+      setTransferDetailLoading(false)
+    }
+  }, [sendTransferMessage])
+
+  const isCompared = (data: CorrelatedCustomerData) =>
+    compared.some(item => getCustomerKey(item) === getCustomerKey(data))
+
+  const toggleCompare = (data: CorrelatedCustomerData) => {
+    const key = getCustomerKey(data)
+    setCompared(current => current.some(item => getCustomerKey(item) === key)
+      ? current.filter(item => getCustomerKey(item) !== key)
+      : [...current, data].slice(-MAX_COMPARED))
+  }
+
+  const comparedRows = compared.map(flattenCorrelatedData)
+
+  return (
+    <div className="dashboard">
+      <Header title="Customer Dashboard" onOpenSettings={() => chrome.runtime.openOptionsPage()} />
+
+      <form className="dashboard-search" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder="Search by email, phone, name, or ID..."
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          aria-label="Search customers"
+        />
+        <button type="submit" className="dashboard-primary-button" disabled={loading || !searchQuery.trim()}>
+          {loading ? 'Searching...' : 'Search'}
+        </button>
+        <button type="button" className="dashboard-secondary-button" onClick={() => setShowSearchHistory(true)}>
+          History
+        </button>
+      </form>
+
+      {error && <div className="dashboard-error" role="alert">{error}</div>}
+
+      {compared.length > 0 && (
+        <section className="dashboard-comparison" aria-label="Customer comparison">
+          <div className="dashboard-section-header">
+            <h2>Comparison</h2>
+            <button type="button" className="dashboard-link-button" onClick={() => setCompared([])}>
+              Clear
+            </button>
+          </div>
+          <div className="comparison-table-wrapper">
+            <table className="comparison-table">
+              <thead>
+                <tr>
+                  <th scope="col"><span className="sr-only">Field</span></th>
+                  {compared.map((data, index) => (
+                    <th key={getCustomerKey(data)} scope="col">
+                      {comparedRows[index].hubspotCompanyName || comparedRows[index].dwollaCustomerName || 'Unknown'}
+                      <button
+                        type="button"
+                        className="dashboard-link-button"
+                        onClick={() => toggleCompare(data)}
+                        aria-label="Remove from comparison"
+                      >
+                        ✕
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparisonFields.map(field => {
+                  // Transfer columns are null until the customer's details are loaded
+                  const values = comparedRows.map(row => row[field.key] === null ? 'Not loaded' : String(row[field.key] ?? ''))
+                  const differs = new Set(values).size > 1
+                  return (
+                    <tr key={field.key} className={differs ? 'differs' : ''}>
+                      <th scope="row">{field.label}</th>
+                      {values.map((value, index) => (
+                        <td key={index}>{value || '—'}</td>
+                      ))}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <main className="dashboard-results" aria-busy={loading}>
+        {loading ? (
+          <SkeletonCorrelatedData />
+        ) : searchResults && searchResults.correlatedData.length > 0 ? (
+          searchResults.correlatedData.map(data => (
+            <div key={getCustomerKey(data)} className="dashboard-card">
+              <button
+                type="button"
+                className={`compare-toggle ${isCompared(data) ? 'active' : ''}`}
+                onClick={() => toggleCompare(data)}
+                aria-pressed={isCompared(data)}
+              >
+                {isCompared(data) ? '✓ Comparing' : '+ Compare'}
+              </button>
+              <CorrelatedDataView
+                data={data}
+                onSelectCustomer={handleSelectCustomer}
+                onSelectTransfer={handleSelectTransfer}
+                loading={loadingTransfers}
+              />
+            </div>
+          ))
+        ) : searchResults ? (
+          <div className="dashboard-empty">No customers found for "{lastSearchQuery}"</div>
+        ) : (
+          <div className="dashboard-empty">Search for a customer to get started</div>
+        )}
+      </main>
+
+      <SearchHistory
+        isVisible={showSearchHistory}
+        onClose={() => setShowSearchHistory(false)}
+        onSelectSearch={runSearch}
+        currentQuery={searchQuery}
+      />
+
+      <TransferDetailDrawer
+        isVisible={showTransferDetail}
+        transfer={transferDetail}
+        loading={transferDetailLoading}
+        error={transferDetailError}
+        onClose={() => setShowTransferDetail(false)}
+      />
+    </div>
+  )
+}
+
+export default Dashboard
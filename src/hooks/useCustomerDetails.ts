@@ -0,0 +1,58 @@
+import { useCallback } from 'react'
+import { DwollaFundingSource, DwollaTransfer } from '../types'
+import { CorrelatedCustomerData } from '../utils/dataCorrelation'
+import { useMessageHandler } from './useMessageHandler'
+import { logger } from '../utils/logger'
+
+// What loaded for a customer; a part that failed to load is left undefined
+export interface CustomerDetails {
+  transfers?: DwollaTransfer[]
+  fundingSources?: DwollaFundingSource[]
+}
+
+/**
+ * Merge loaded details into the matching customer's data, keeping what was there
+ * for any part that failed to load
+ */
+export const applyCustomerDetails = (customerId: string, details: CustomerDetails) =>
+  (data: CorrelatedCustomerData): CorrelatedCustomerData =>
+    data.dwolla.customer?.id === customerId
+      ? {
+          ...data,
+          dwolla: {
+            ...data.dwolla,
+            transfers: details.transfers ?? data.dwolla.transfers,
+            transfersLoaded: data.dwolla.transfersLoaded || !!details.transfers,
+            fundingSources: details.fundingSources ?? data.dwolla.fundingSources
+          }
+        }
+      : data
+
+export function useCustomerDetails() {
+  const { sendMessage } = useMessageHandler()
+
+  // Sequential because sendMessage cancels any request still in flight
+  const loadCustomerDetails = useCallback(async (customerId: string): Promise<CustomerDetails> => {
+    const details: CustomerDetails = {}
+
+    try {
+      const response = await sendMessage<any>({ type: 'GET_TRANSFERS', customerId }, { timeout: 20000 })
+      details.transfers = response.transfers || []
+      logger.info('Transfers loaded', { count: details.transfers?.length || 0 })
+    } catch (error) {
+      logger.error('Failed to load transfers', error as Error, { customerId })
+    }
+
+    try {
+      const response = await sendMessage<any>({ type: 'GET_FUNDING_SOURCES', customerId }, { timeout: 20000 })
+      details.fundingSources = response.fundingSources || []
+      logger.info('Funding sources loaded', { count: details.fundingSources?.length || 0 })
+    } catch (error) {
+      logger.error('Failed to load funding sources', error as Error, { customerId })
+    }
+
+    return details
+  }, [sendMessage])
+
+  return { loadCustomerDetails }
+}
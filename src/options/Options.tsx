@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react'
+import { DwollaCustomer } from '../types'
+import {
+  CorrelationRules,
+  DEFAULT_CORRELATION_RULES,
+  correlationRulesService
+} from '../utils/correlationRules'
+import './Options.css'
+
+const DWOLLA_STATUSES: DwollaCustomer['status'][] = ['verified', 'unverified', 'suspended']
+
+const compareFieldLabels: Record<keyof CorrelationRules['compareFields'], string> = {
+  businessName: 'Business name (HubSpot company vs Dwolla business name)',
+  status: 'Onboarding status (HubSpot onboarding_status vs Dwolla status)',
+  contactName: 'Contact name (HubSpot contact vs personal Dwolla customer)',
+  dwollaId: 'Missing dwolla_id on matched HubSpot companies'
+}
+
+interface StatusMapping {
+  hubspot: string
+  dwolla: string
+}
+
+const toMappings = (statusMap: Record<string, string>): StatusMapping[] =>
+  Object.entries(statusMap).map(([hubspot, dwolla]) => ({ hubspot, dwolla }))
+
+const Options: React.FC = () => {
+  const [rules, setRules] = useState<CorrelationRules>(DEFAULT_CORRELATION_RULES)
+  const [mappings, setMappings] = useState<StatusMapping[]>(toMappings(DEFAULT_CORRELATION_RULES.statusMap))
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    correlationRulesService.getRules().then(saved => {
+      setRules(saved)
+      setMappings(toMappings(saved.statusMap))
+      setLoading(false)
+    })
+  }, [])
+
+  const updateMapping = (index: number, update: Partial<StatusMapping>) => {
+    setMappings(current => current.map((mapping, i) => i === index ? { ...mapping, ...update } : mapping))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const hubspotValues = mappings.map(m => m.hubspot.trim())
+    if (new Set(hubspotValues).size !== hubspotValues.length) {
+      setMessage({ type: 'error', text: 'Each HubSpot status can only be mapped once' })
+      return
+    }
+
+    const updated: CorrelationRules = {
+      ...rules,
+      statusMap: Object.fromEntries(mappings.map(m => [m.hubspot.trim(), m.dwolla]))
+    }
+
+    try {
+      await correlationRulesService.saveRules(updated)
+      setRules(updated)
+      setMessage({ type: 'success', text: 'Settings saved. New searches will use these rules.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: (error as Error).message })
+    }
+  }
+
+  const handleReset = async () => {
+    const defaults = await correlationRulesService.resetRules()
+    setRules(defaults)
+    setMappings(toMappings(defaults.statusMap))
+    setMessage({ type: 'success', text: 'Default rules restored.' })
+  }
+
+  if (loading) {
+    return <div className="options-container">Loading settings...</div>
+  }
+
+  return (
+    <form className="options-container" onSubmit={handleSave}>
+      <h1 className="options-title">Correlation Settings</h1>
+      <p className="options-description">
+        Control how HubSpot and Dwolla records are matched and which differences are reported.
+      </p>
+
+      <section className="options-section">
+        <h2>Confidence thresholds</h2>
+        <label className="options-field">
+          <span>Name match threshold</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={rules.nameMatchThreshold}
+            onChange={e => setRules({ ...rules, nameMatchThreshold: parseFloat(e.target.value) })}
+          />
+          <small>Companies without a dwolla_id are linked to a Dwolla business when name similarity exceeds this value.</small>
+        </label>
+        <div className="options-field">
+          <span>"Business names differ" range</span>
+          <div className="options-range">
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              aria-label="Name mismatch range minimum"
+              value={rules.nameMismatchRange.min}
+              onChange={e => setRules({
+                ...rules,
+                nameMismatchRange: { ...rules.nameMismatchRange, min: parseFloat(e.target.value) }
+              })}
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              aria-label="Name mismatch range maximum"
+              value={rules.nameMismatchRange.max}
+              onChange={e => setRules({
+                ...rules,
+                nameMismatchRange: { ...rules.nameMismatchRange, max: parseFloat(e.target.value) }
+              })}
+            />
+          </div>
+          <small>Linked records whose names fall in this similarity range are flagged as an inconsistency.</small>
+        </div>
+      </section>
+
+      <section className="options-section">
+        <h2>Compared fields</h2>
+        {(Object.keys(compareFieldLabels) as (keyof CorrelationRules['compareFields'])[]).map(field => (
+          <label key={field} className="options-checkbox">
+            <input
+              type="checkbox"
+              checked={rules.compareFields[field]}
+              onChange={e => setRules({
+                ...rules,
+                compareFields: { ...rules.compareFields, [field]: e.target.checked }
+              })}
+            />
+            {compareFieldLabels[field]}
+          </label>
+        ))}
+      </section>
+
+      <section className="options-section">
+        <h2>Status mapping</h2>
+        <small>HubSpot onboarding_status values and the Dwolla status each one expects.</small>
+        <div className="status-mappings">
+          {mappings.map((mapping, index) => (
+            <div key={index} className="status-mapping-row">
+              <input
+                type="text"
+                placeholder="HubSpot onboarding_status"
+                aria-label="HubSpot onboarding status"
+                value={mapping.hubspot}
+                onChange={e => updateMapping(index, { hubspot: e.target.value })}
+              />
+              <span>→</span>
+              <select
+                aria-label="Dwolla status"
+                value={mapping.dwolla}
+                onChange={e => updateMapping(index, { dwolla: e.target.value })}
+              >
+                {DWOLLA_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="options-link-button"
+                onClick={() => setMappings(current => current.filter((_, i) => i !== index))}
+                aria-label={`Remove mapping for ${mapping.hubspot || 'new status'}`}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="options-link-button"
+          onClick={() => setMappings([...mappings, { hubspot: '', dwolla: 'verified' }])}
+        >
+          + Add mapping
+        </button>
+      </section>
+
+      {message && (
+        <div className={`options-message ${message.type}`} role={message.type === 'error' ? 'alert' : 'status'}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="options-actions">
+        <button type="button" className="options-secondary-button" onClick={handleReset}>
+          Restore defaults
+        </button>
+        <button type="submit" className="options-primary-button">
+          Save
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default Options
@@ -1,22 +1,40 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { CorrelatedDataView } from '../components/CorrelatedDataView'
 import { SearchHistory } from '../components/SearchHistory'
 import { DebugPanel } from '../components/DebugPanel'
 import { ErrorDisplay } from '../components/ErrorDisplay'
 import { Header } from '../components/Header'
 import { SkeletonCorrelatedData } from '../components/Skeleton'
-import { CorrelatedSearchResults } from '../types'
+import { TransferDetailDrawer } from '../components/TransferDetailDrawer'
+import { ActivityTimeline } from '../components/ActivityTimeline'
+import { WatchlistPanel } from '../components/WatchlistPanel'
+import { ConfirmDialog } from '../components/ConfirmDialog'
+import { PropertyDiff } from '../components/PropertyDiff'
+import { CorrelatedSearchResults, DwollaEvent, DwollaTransferDetail } from '../types'
 import { searchHistoryService } from '../utils/searchHistory'
+import { CorrelatedCustomerData } from '../utils/dataCorrelation'
+import { ATTENTION_TOPICS, CustomerLiveUpdate } from '../utils/liveUpdates'
+import { watchlistService, WatchedCustomer } from '../utils/watchlist'
+import { exportSearchResults, ExportFormat } from '../utils/export'
+import { sidePanelStateService } from '../utils/sidePanelState'
+import { getOnboardingStatusFix, applyOnboardingStatusFix, OnboardingStatusUpdate, OnboardingStatusSyncResult } from '../utils/crmWriteBack'
 import { checkAuthStatus, validateTokenPermissions } from '../utils/auth'
 import { sessionManager } from '../utils/sessionManager'
 import { validateSearchQuery, sanitizeSearchQuery, detectAndValidateQueryType } from '../utils/validation'
 import { useDebouncedCallback } from '../hooks/useDebounce'
 import { useMessageHandler } from '../hooks/useMessageHandler'
+import { useCustomerDetails, applyCustomerDetails } from '../hooks/useCustomerDetails'
 import { logger } from '../utils/logger'
 import logo from '../assets/logo.png'
 import './App.css'
 
-function App() {
+interface AppProps {
+  // The side panel stays docked while the agent works in other tabs, so it keeps its
+  // results between openings and can pin a customer
+  mode?: 'popup' | 'sidepanel'
+}
+
+function App({ mode = 'popup' }: AppProps) {
   const [authStatus, setAuthStatus] = useState({
     hubspot: false,
     dwolla: true, // Dwolla is always authenticated via proxy
@@ -29,11 +47,31 @@ function App() {
   const [error, setError] = useState<string | null>(null)
   const [searchResults, setSearchResults] = useState<CorrelatedSearchResults | null>(null)
   const [loadingTransfers, setLoadingTransfers] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [showTransferDetail, setShowTransferDetail] = useState(false)
+  const [transferDetail, setTransferDetail] = useState<DwollaTransferDetail | null>(null)
+  const [transferDetailLoading, setTransferDetailLoading] = useState(false)
+  const [transferDetailError, setTransferDetailError] = useState<string | null>(null)
+  const [showTimeline, setShowTimeline] = useState(false)
+  const [timelineData, setTimelineData] = useState<CorrelatedCustomerData | null>(null)
+  const [timelineEvents, setTimelineEvents] = useState<DwollaEvent[]>([])
+  const [timelineTruncated, setTimelineTruncated] = useState(false)
+  const [timelineLoading, setTimelineLoading] = useState(false)
+  const [timelineError, setTimelineError] = useState<string | null>(null)
+  const [showWatchlist, setShowWatchlist] = useState(false)
+  const [watchedCustomerIds, setWatchedCustomerIds] = useState<Set<string>>(new Set())
+  const [watchlistAlerts, setWatchlistAlerts] = useState(0)
+  const [liveUpdates, setLiveUpdates] = useState<Record<string, string>>({})
+  const [showBulkStatusFix, setShowBulkStatusFix] = useState(false)
+  const [bulkStatusFixing, setBulkStatusFixing] = useState(false)
+  const [bulkStatusFixResult, setBulkStatusFixResult] = useState<{ updated: number, failed: string[] } | null>(null)
   const [showDebug, setShowDebug] = useState(false)
   const [validationError, setValidationError] = useState<string | null>(null)
   const [showSearchHistory, setShowSearchHistory] = useState(false)
   const [searchStartTime, setSearchStartTime] = useState<number | null>(null)
   const [lastSearchQuery, setLastSearchQuery] = useState<string>('')
+  const [pinnedCustomer, setPinnedCustomer] = useState<CorrelatedCustomerData | null>(null)
+  const [sidePanelRestored, setSidePanelRestored] = useState(false)
   
   // Show debug toggle in development mode
   const isDev = import.meta.env?.DEV || false
@@ -46,6 +84,13 @@ function App() {
   
   // Use message handler with cancellation support
   const { sendMessage, cancel } = useMessageHandler()
+  // A handler cancels its own request still in flight, so each independent action gets one
+  // and opening a panel cannot abort a search, a status sync or another panel's load
+  const { sendMessage: sendStatusFixMessage } = useMessageHandler()
+  const { sendMessage: sendLoadMoreMessage } = useMessageHandler()
+  const { sendMessage: sendTransferMessage } = useMessageHandler()
+  const { sendMessage: sendTimelineMessage } = useMessageHandler()
+  const { loadCustomerDetails } = useCustomerDetails()
 
   const checkAuth = useCallback(async () => {
     try {
@@ -202,6 +247,8 @@ function App() {
     setLoading(true)
     setError(null)
     setSearchResults(null)
+    setBulkStatusFixResult(null)
+    setLiveUpdates({})
     setSearchStartTime(Date.now())
     setLastSearchQuery(sanitized)
     
@@ -229,7 +276,8 @@ function App() {
       } else if (response.success) {
         setSearchResults({
           correlatedData: response.correlatedData,
-          summary: response.summary
+          summary: response.summary,
+          continuation: response.continuation
         })
         
         // Add to search history
@@ -304,6 +352,38 @@ function App() {
     }
   }, [lastSearchQuery, handleDebouncedSearch])
   
+  // Fetch the next HubSpot page for the current search; the service worker merges and re-correlates
+  const handleLoadMore = useCallback(async () => {
+    if (!searchResults?.continuation || !lastSearchQuery) return
+    
+    const { continuation } = searchResults
+    setLoadingMore(true)
+    try {
+      const response = await sendLoadMoreMessage<any>({
+        type: 'SEARCH_CUSTOMER',
+        query: lastSearchQuery,
+        continuation
+      }, { timeout: 20000 })
+      
+      if (response.success) {
+        // A new search may have replaced the results this page belongs to
+        setSearchResults(current => current?.continuation === continuation
+          ? {
+              correlatedData: response.correlatedData,
+              summary: response.summary,
+              continuation: response.continuation
+            }
+          : current)
+        logger.info('Loaded more results', { totalResults: response.summary?.totalResults || 0 })
+      }
+    } catch (err) {
+      logger.error('Failed to load more results', err as Error)
+      setError('Failed to load more results')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [sendLoadMoreMessage, searchResults, lastSearchQuery])
+  
   // Categorize errors for better user messaging
   const categorizeError = useCallback((error: Error): { type: 'auth' | 'network' | 'timeout' | 'config' | 'unknown', friendlyMessage: string } => {
     const message = error.message.toLowerCase()
@@ -360,40 +440,281 @@ function App() {
     setLoadingTransfers(true)
     try {
       logger.info('Loading transfers for customer', { customerId })
+      const details = await loadCustomerDetails(customerId)
+
+      // Functional updates, since results can change while the details load
+      const withDetails = applyCustomerDetails(customerId, details)
+      setSearchResults(current => current && {
+        ...current,
+        correlatedData: current.correlatedData.map(withDetails)
+      })
+      setPinnedCustomer(current => current && withDetails(current))
+
+      if (!details.transfers) {
+        setError('Failed to load transfer history')
+      } else if (!details.fundingSources) {
+        setError('Failed to load funding sources')
+      }
+    } finally {
+      setLoadingTransfers(false)
+    }
+  }, [loadCustomerDetails])
+
+  const handleSelectTransfer = useCallback(async (transferId: string) => {
+    setShowTransferDetail(true)
+    setTransferDetail(null)
+    setTransferDetailError(null)
+    setTransferDetailLoading(true)
+    try {
+      logger.info('Loading transfer details', { transferId })
       
-      const response = await sendMessage<any>({
-        type: 'GET_TRANSFERS',
-        customerId
+      const response = await sendTransferMessage<any>({
+        type: 'GET_TRANSFER_DETAILS',
+        transferId
       }, { timeout: 20000 })
+      
+      if (response.success) {
+        setTransferDetail(response.transfer)
+      }
+    } catch (err) {
+      logger.error('Failed to load transfer details', err as Error)
+      setTransferDetailError('Failed to load transfer details')
+    } finally {
+      setTransferDetailLoading(false)
+    }
+  }, [sendTransferMessage])
 
-      if (response.success && searchResults) {
-        // Update the specific customer's transfers in correlated data
-        const updatedData = searchResults.correlatedData.map(customerData => {
-          if (customerData.dwolla.customer?.id === customerId) {
-            return {
-              ...customerData,
-              dwolla: {
-                ...customerData.dwolla,
-                transfers: response.transfers
-              }
-            }
-          }
-          return customerData
-        })
-        
-        setSearchResults({
-          ...searchResults,
-          correlatedData: updatedData
-        })
-        logger.info('Transfers loaded', { count: response.transfers?.length || 0 })
+  useEffect(() => {
+    Promise.all([watchlistService.getWatchlist(), watchlistService.getChanges()]).then(([watchlist, changes]) => {
+      setWatchedCustomerIds(new Set(watchlist.map(item => item.customerId)))
+      setWatchlistAlerts(changes.filter(change => !change.seen).length)
+    })
+  }, [])
+
+  const handleWatchlistChange = useCallback((watchlist: WatchedCustomer[]) => {
+    setWatchedCustomerIds(new Set(watchlist.map(item => item.customerId)))
+  }, [])
+
+  const handleToggleWatch = useCallback(async (data: CorrelatedCustomerData) => {
+    const customer = data.dwolla.customer
+    if (!customer) return
+
+    try {
+      if (watchedCustomerIds.has(customer.id)) {
+        await watchlistService.unwatch(customer.id)
+      } else {
+        await watchlistService.watch(customer, data.dwolla.transfers)
       }
+      handleWatchlistChange(await watchlistService.getWatchlist())
     } catch (err) {
-      logger.error('Failed to load transfers', err as Error)
-      setError('Failed to load transfer history')
+      logger.error('Failed to update watchlist', err as Error)
+      setError((err as Error).message)
+    }
+  }, [watchedCustomerIds, handleWatchlistChange])
+
+  // Follow webhook events for the Dwolla customers on screen. Sent directly because
+  // sendMessage would cancel a search still in flight.
+  const displayedCustomerIds = useMemo(() => {
+    if (!searchResults && !pinnedCustomer) return undefined
+    return [pinnedCustomer, ...(searchResults?.correlatedData || [])]
+      .map(customerData => customerData?.dwolla.customer?.id)
+      .filter((id): id is string => !!id)
+      .join(',')
+  }, [searchResults, pinnedCustomer])
+
+  useEffect(() => {
+    if (displayedCustomerIds === undefined) return
+
+    const customerIds = displayedCustomerIds ? displayedCustomerIds.split(',') : []
+    chrome.runtime.sendMessage({ type: 'TRACK_CUSTOMERS', customerIds }).catch(err => {
+      logger.warn('Failed to track customers for live updates', { error: (err as Error).message })
+    })
+  }, [displayedCustomerIds])
+
+  useEffect(() => {
+    const handleMessage = (message: { type: string, update?: CustomerLiveUpdate }) => {
+      if (message.type !== 'DWOLLA_CUSTOMER_UPDATED' || !message.update) return
+
+      const { customerId, customer, transfers, events } = message.update
+      const withUpdate = (customerData: CorrelatedCustomerData): CorrelatedCustomerData =>
+        customerData.dwolla.customer?.id === customerId
+          ? { ...customerData, dwolla: { ...customerData.dwolla, customer, transfers, transfersLoaded: true } }
+          : customerData
+      setSearchResults(current => current && {
+        ...current,
+        correlatedData: current.correlatedData.map(withUpdate)
+      })
+      setPinnedCustomer(current => current && withUpdate(current))
+
+      const summary = events
+        .map(event => ATTENTION_TOPICS[event.topic] || event.topic.replace(/_/g, ' '))
+        .join(', ')
+      setLiveUpdates(current => ({
+        ...current,
+        [customerId]: `Updated from Dwolla at ${new Date().toLocaleTimeString()}: ${summary}`
+      }))
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [])
+
+  // Restore what the side panel showed before it was closed or reloaded
+  useEffect(() => {
+    if (mode !== 'sidepanel') return
+
+    sidePanelStateService.getState().then(state => {
+      if (state) {
+        setSearchQuery(state.query)
+        setLastSearchQuery(state.query)
+        setSearchResults(state.results)
+        setPinnedCustomer(state.pinned)
+      }
+      setSidePanelRestored(true)
+    })
+  }, [mode])
+
+  useEffect(() => {
+    if (!sidePanelRestored) return
+    sidePanelStateService.saveState({
+      query: lastSearchQuery,
+      results: searchResults,
+      pinned: pinnedCustomer
+    })
+  }, [sidePanelRestored, lastSearchQuery, searchResults, pinnedCustomer])
+
+  const isPinned = useCallback((data: CorrelatedCustomerData) =>
+    !!pinnedCustomer &&
+    pinnedCustomer.hubspot.company?.id === data.hubspot.company?.id &&
+    pinnedCustomer.dwolla.customer?.id === data.dwolla.customer?.id,
+    [pinnedCustomer]
+  )
+
+  const handleTogglePin = useCallback((data: CorrelatedCustomerData) => {
+    setPinnedCustomer(isPinned(data) ? null : data)
+  }, [isPinned])
+
+  // Chrome only opens the side panel during a user gesture, which an await can outlive, so the
+  // window is looked up ahead of time and open() is called straight from the header button's click
+  const windowIdRef = useRef<number | undefined>(undefined)
+  useEffect(() => {
+    if (mode !== 'popup') return
+    chrome.windows.getCurrent().then(currentWindow => {
+      windowIdRef.current = currentWindow.id
+    })
+  }, [mode])
+
+  const handleOpenSidePanel = useCallback(() => {
+    if (windowIdRef.current === undefined) {
+      setError('Failed to open the side panel')
+      return
+    }
+    chrome.sidePanel.open({ windowId: windowIdRef.current })
+      .then(() => window.close())
+      .catch(err => {
+        logger.error('Failed to open side panel', err as Error)
+        setError('Failed to open the side panel')
+      })
+  }, [])
+
+  const handleShowTimeline = useCallback(async (data: CorrelatedCustomerData) => {
+    setShowTimeline(true)
+    setTimelineData(data)
+    setTimelineEvents([])
+    setTimelineTruncated(false)
+    setTimelineError(null)
+
+    // HubSpot entries come from the search result itself; only Dwolla events need fetching
+    const customerId = data.dwolla.customer?.id
+    if (!customerId) return
+
+    setTimelineLoading(true)
+    try {
+      logger.info('Loading customer events', { customerId })
+
+      const response = await sendTimelineMessage<any>({
+        type: 'GET_CUSTOMER_EVENTS',
+        customerId
+      }, { timeout: 30000 })
+
+      if (response.success) {
+        setTimelineEvents(response.events)
+        setTimelineTruncated(response.truncated)
+      }
+    } catch (err) {
+      logger.error('Failed to load customer events', err as Error)
+      setTimelineError('Failed to load Dwolla events. Showing transfers and HubSpot activity only.')
     } finally {
-      setLoadingTransfers(false)
+      setTimelineLoading(false)
+    }
+  }, [sendTimelineMessage])
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    if (!searchResults) return
+
+    try {
+      await exportSearchResults(searchResults, lastSearchQuery, format)
+    } catch (err) {
+      logger.error('Failed to export search results', err as Error, { format })
+      setError('Failed to export search results')
     }
-  }, [sendMessage, searchResults])
+  }, [searchResults, lastSearchQuery])
+
+  // Status mismatches in the current results that the correlation rules know how to fix
+  const statusFixes = useMemo(() => 
+    (searchResults?.correlatedData || [])
+      .map(getOnboardingStatusFix)
+      .filter((fix): fix is OnboardingStatusUpdate => !!fix),
+    [searchResults]
+  )
+
+  const handleBulkStatusFix = useCallback(async () => {
+    if (!searchResults || statusFixes.length === 0) return
+
+    setShowBulkStatusFix(false)
+    setBulkStatusFixing(true)
+    setBulkStatusFixResult(null)
+    try {
+      logger.info('Syncing onboarding status', { count: statusFixes.length })
+      
+      const response = await sendStatusFixMessage<any>({
+        type: 'SYNC_ONBOARDING_STATUS',
+        updates: statusFixes
+      }, { timeout: 30000 + statusFixes.length * 5000 })
+      
+      const results: OnboardingStatusSyncResult[] = response.results || []
+      const updatedIds = new Set(results.filter(r => r.success).map(r => r.companyId))
+      
+      setSearchResults(current => {
+        if (!current) return current
+        const updatedData = current.correlatedData.map(customerData => {
+          const fix = statusFixes.find(f => f.companyId === customerData.hubspot.company?.id)
+          return fix && updatedIds.has(fix.companyId)
+            ? applyOnboardingStatusFix(customerData, fix.onboardingStatus)
+            : customerData
+        })
+        return {
+          ...current,
+          correlatedData: updatedData,
+          summary: {
+            ...current.summary,
+            inconsistencyCount: updatedData.reduce((count, d) => count + d.correlation.inconsistencies.length, 0)
+          }
+        }
+      })
+      setBulkStatusFixResult({
+        updated: updatedIds.size,
+        failed: results
+          .filter(r => !r.success)
+          .map(r => `${statusFixes.find(f => f.companyId === r.companyId)?.companyName}: ${r.error}`)
+      })
+    } catch (err) {
+      logger.error('Failed to sync onboarding status', err as Error)
+      setError('Failed to update onboarding status in HubSpot')
+    } finally {
+      setBulkStatusFixing(false)
+    }
+  }, [sendStatusFixMessage, searchResults, statusFixes])
 
   const handleAuth = useCallback(async (provider: 'hubspot' | 'dwolla') => {
     try {
@@ -487,24 +808,35 @@ function App() {
   }
 
   return (
-    <div className="app">
+    <div className={`app ${mode}`}>
       <header className="header">
         <Header 
           title="Customer Dashboard"
           showDebugToggle={isDev}
           onDebugToggle={() => setShowDebug(!showDebug)}
           showDebug={showDebug}
+          onOpenSettings={() => chrome.runtime.openOptionsPage()}
+          onOpenBulkLookup={() => chrome.tabs.create({ url: chrome.runtime.getURL('src/bulk/index.html') })}
+          onOpenFullView={() => chrome.tabs.create({
+            url: chrome.runtime.getURL(`src/dashboard/index.html${lastSearchQuery ? `?q=${encodeURIComponent(lastSearchQuery)}` : ''}`)
+          })}
+          onOpenSidePanel={mode === 'popup' ? handleOpenSidePanel : undefined}
+          onOpenWatchlist={() => {
+            setShowWatchlist(true)
+            setWatchlistAlerts(0)
+          }}
+          watchlistAlerts={watchlistAlerts}
         />
         <form onSubmit={handleSearch} className="search-form">
           <div className="search-input-container">
             <input
               type="text"
-              placeholder="Search by email, name, or business name... (⌘K for history)"
+              placeholder="Search by email, phone, name, or ID... (⌘K for history)"
               value={searchQuery}
               onChange={handleSearchInputChange}
               className="search-input"
               disabled={loading}
-              aria-label="Search customers by email, name, or business name"
+              aria-label="Search customers by email, phone, name, business name, or record ID"
               aria-invalid={!!validationError}
               aria-describedby={validationError ? 'search-error' : (searchResults ? 'search-results' : undefined)}
               autoComplete="off"
@@ -546,6 +878,22 @@ function App() {
       )}
 
       <main className="main-content">
+        {pinnedCustomer && (
+          <section className="pinned-customer" aria-label="Pinned customer">
+            <CorrelatedDataView
+              data={pinnedCustomer}
+              onSelectCustomer={handleSelectCustomer}
+              onSelectTransfer={handleSelectTransfer}
+              onShowTimeline={handleShowTimeline}
+              isWatched={!!pinnedCustomer.dwolla.customer && watchedCustomerIds.has(pinnedCustomer.dwolla.customer.id)}
+              onToggleWatch={handleToggleWatch}
+              isPinned
+              onTogglePin={handleTogglePin}
+              liveUpdate={pinnedCustomer.dwolla.customer ? liveUpdates[pinnedCustomer.dwolla.customer.id] : undefined}
+              loading={loadingTransfers}
+            />
+          </section>
+        )}
         {loading ? (
           <div className="loading-skeletons" aria-label="Loading search results">
             <SkeletonCorrelatedData />
@@ -564,9 +912,27 @@ function App() {
                 key={`${customerData.hubspot.company?.id || 'no-company'}-${customerData.dwolla.customer?.id || 'no-customer'}-${index}`}
                 data={customerData}
                 onSelectCustomer={handleSelectCustomer}
+                onSelectTransfer={handleSelectTransfer}
+                onShowTimeline={handleShowTimeline}
+                isWatched={!!customerData.dwolla.customer && watchedCustomerIds.has(customerData.dwolla.customer.id)}
+                onToggleWatch={handleToggleWatch}
+                isPinned={isPinned(customerData)}
+                onTogglePin={mode === 'sidepanel' ? handleTogglePin : undefined}
+                liveUpdate={customerData.dwolla.customer ? liveUpdates[customerData.dwolla.customer.id] : undefined}
                 loading={loadingTransfers}
               />
             ))}
+            {searchResults?.continuation && (
+              <button
+                type="button"
+                className="load-more-button"
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                aria-label={loadingMore ? 'Loading more results' : 'Load more results'}
+              >
+                {loadingMore ? 'Loading...' : 'Load more results'}
+              </button>
+            )}
           </div>
         ) : (
           searchResults && (
@@ -652,18 +1018,99 @@ function App() {
                 </div>
               )}
             </div>
+            {correlatedData.length > 0 && (
+              <div className="export-actions">
+                <button type="button" className="export-button" onClick={() => handleExport('csv')}>
+                  ⬇️ Export CSV
+                </button>
+                <button type="button" className="export-button" onClick={() => handleExport('json')}>
+                  ⬇️ Export JSON
+                </button>
+              </div>
+            )}
+            {statusFixes.length > 0 && (
+              <button
+                type="button"
+                className="bulk-fix-button"
+                onClick={() => setShowBulkStatusFix(true)}
+                disabled={bulkStatusFixing}
+              >
+                {bulkStatusFixing
+                  ? 'Updating HubSpot...'
+                  : `Fix ${statusFixes.length} status mismatch${statusFixes.length !== 1 ? 'es' : ''} in HubSpot`}
+              </button>
+            )}
+            {bulkStatusFixResult && (
+              <div className={`bulk-fix-result ${bulkStatusFixResult.failed.length > 0 ? 'has-failures' : ''}`} role="status">
+                Updated {bulkStatusFixResult.updated} compan{bulkStatusFixResult.updated !== 1 ? 'ies' : 'y'} in HubSpot.
+                {bulkStatusFixResult.failed.length > 0 && (
+                  <ul>
+                    {bulkStatusFixResult.failed.map(failure => <li key={failure}>{failure}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+            {searchResults.summary.dwollaTruncated && (
+              <div className="results-truncated-notice" role="note">
+                Dwolla returned {searchResults.summary.dwollaTotal} matching customers; only the first{' '}
+                {searchResults.correlatedData.filter(d => d.dwolla.customer).length} are shown. Refine your search to narrow the results.
+              </div>
+            )}
           </div>
         )}
       </main>
 
       <DebugPanel show={showDebug} onClose={() => setShowDebug(false)} />
       
+      <ConfirmDialog
+        isVisible={showBulkStatusFix}
+        title="Update onboarding status in HubSpot?"
+        message={`${statusFixes.length} compan${statusFixes.length !== 1 ? 'ies' : 'y'} will be updated to match Dwolla. Each change is recorded in the audit log.`}
+        confirmLabel="Update all"
+        onConfirm={handleBulkStatusFix}
+        onCancel={() => setShowBulkStatusFix(false)}
+      >
+        <PropertyDiff
+          changes={statusFixes.map(fix => ({
+            label: fix.companyName,
+            property: 'onboarding_status',
+            previousValue: fix.previousStatus,
+            newValue: fix.onboardingStatus
+          }))}
+        />
+      </ConfirmDialog>
+      
+      <TransferDetailDrawer
+        isVisible={showTransferDetail}
+        transfer={transferDetail}
+        loading={transferDetailLoading}
+        error={transferDetailError}
+        onClose={() => setShowTransferDetail(false)}
+      />
+
+      <ActivityTimeline
+        isVisible={showTimeline}
+        data={timelineData}
+        dwollaEvents={timelineEvents}
+        eventsTruncated={timelineTruncated}
+        loading={timelineLoading}
+        error={timelineError}
+        onClose={() => setShowTimeline(false)}
+      />
+      
       <SearchHistory
         isVisible={showSearchHistory}
         onClose={() => setShowSearchHistory(false)}
         onSelectSearch={handleSearchHistorySelect}
         currentQuery={searchQuery}
       />
+
+      <WatchlistPanel
+        isVisible={showWatchlist}
+        onClose={() => setShowWatchlist(false)}
+        onSelectCustomer={handleSearchHistorySelect}
+        onWatchlistChange={handleWatchlistChange}
+      />
     </div>
   )
 }
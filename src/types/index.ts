@@ -21,12 +21,36 @@ export interface HubSpotContact {
     lastname?: string
     email: string
     phone?: string
+    mobilephone?: string
     company?: string
   }
   createdAt: string
   updatedAt: string
 }
 
+export interface HubSpotNote {
+  id: string
+  properties: {
+    hs_note_body: string
+    hs_timestamp: string
+  }
+  createdAt: string
+  updatedAt: string
+}
+
+export interface HubSpotTicket {
+  id: string
+  properties: {
+    subject: string
+    content?: string
+    hs_pipeline?: string
+    hs_pipeline_stage?: string
+    hs_ticket_priority?: string
+  }
+  createdAt: string
+  updatedAt: string
+}
+
 // Dwolla Types
 export interface DwollaCustomer {
   id: string
@@ -37,6 +61,7 @@ export interface DwollaCustomer {
   status: 'unverified' | 'suspended' | 'verified'
   created: string
   businessName?: string
+  phone?: string
 }
 
 export interface DwollaTransfer {
@@ -61,8 +86,56 @@ export interface DwollaTransfer {
       currency: 'USD'
     }
   }>
+  clearing?: {
+    source?: 'standard' | 'next-available'
+    destination?: 'same-day' | 'next-available'
+  }
+  correlationId?: string
+  individualAchId?: string
+  metadata?: Record<string, string>
+  _links?: Record<string, { href: string }>
+}
+
+export interface DwollaTransferFailure {
+  code: string
+  description: string
+  explanation?: string
+}
+
+export interface DwollaTransferDetail extends DwollaTransfer {
+  failure?: DwollaTransferFailure | null
+  fees?: Array<{
+    id?: string
+    status?: string
+    amount: {
+      value: string
+      currency: 'USD'
+    }
+    created?: string
+  }>
+  sourceFundingSource?: Partial<DwollaFundingSource> | null
+  destinationFundingSource?: Partial<DwollaFundingSource> | null
+}
+
+export interface DwollaFundingSource {
+  id: string
+  status: 'verified' | 'unverified'
+  type: 'bank' | 'balance'
+  bankAccountType?: 'checking' | 'savings' | 'general-ledger' | 'loan'
+  name: string
+  bankName?: string
+  created: string
+  removed: boolean
+  channels?: string[]
+  balance?: {
+    value: string
+    currency: 'USD'
+  }
+  _links?: Record<string, { href: string }>
 }
 
+export type MicroDepositState = 'not_started' | 'pending' | 'completed' | 'not_applicable'
+
 // Search Results
 export interface SearchResults {
   hubspot: {
@@ -75,15 +148,24 @@ export interface SearchResults {
   }
 }
 
+// Cursors for the next page of a HubSpot name search; a missing key means that object type is exhausted
+export interface HubSpotSearchCursor {
+  companies?: string
+  contacts?: string
+}
+
 // Correlated Search Results
 export interface CorrelatedSearchResults {
   correlatedData: import('../utils/dataCorrelation').CorrelatedCustomerData[]
+  continuation?: HubSpotSearchCursor
   summary: {
     totalResults: number
     linkedAccounts: number
     unlinkedHubSpot: number
     unlinkedDwolla: number
     inconsistencyCount: number
+    dwollaTruncated?: boolean
+    dwollaTotal?: number
   }
 }
 
@@ -123,6 +205,7 @@ export interface DwollaCustomerSearchResponse {
     customers: DwollaCustomer[]
   }
   total?: number
+  truncated?: boolean
   _links?: {
     next?: {
       href: string
@@ -142,6 +225,49 @@ export interface DwollaTransferSearchResponse {
   }
 }
 
+export interface DwollaFundingSourceResponse {
+  _embedded?: {
+    'funding-sources': DwollaFundingSource[]
+  }
+  _links?: {
+    next?: {
+      href: string
+    }
+  }
+}
+
+// Webhook event, e.g. customer_verified or customer_transfer_failed
+export interface DwollaEvent {
+  id: string
+  created: string
+  topic: string
+  resourceId: string
+}
+
+export interface DwollaEventResponse {
+  _embedded?: {
+    events: DwollaEvent[]
+  }
+  total?: number
+  // The proxy only scans recent account events; older matches may exist
+  truncated?: boolean
+}
+
+// Webhook event pushed to the backend by Dwolla, in the order it was received
+export interface DwollaWebhookEvent extends DwollaEvent {
+  sequence: number
+  customerId: string | null
+  receivedAt: string
+}
+
+export interface DwollaWebhookEventResponse {
+  _embedded: {
+    events: DwollaWebhookEvent[]
+  }
+  // Pass back as `after` to receive only newer events
+  cursor: number
+}
+
 // API Error
 export interface ApiError {
   message: string
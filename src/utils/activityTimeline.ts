@@ -0,0 +1,118 @@
+import { DwollaEvent } from '../types'
+import { CorrelatedCustomerData } from './dataCorrelation'
+
+export type TimelineSource = 'hubspot' | 'dwolla'
+export type TimelineEventType = 'customer' | 'transfer' | 'funding_source' | 'record'
+
+export interface TimelineEvent {
+  id: string
+  timestamp: string
+  source: TimelineSource
+  type: TimelineEventType
+  title: string
+  detail?: string
+}
+
+// Dwolla topics look like customer_bank_transfer_failed; the prefix decides the type
+const getEventType = (topic: string): TimelineEventType => {
+  if (topic.includes('transfer')) return 'transfer'
+  if (topic.includes('funding_source') || topic.includes('microdeposits')) return 'funding_source'
+  return 'customer'
+}
+
+const formatTopic = (topic: string): string => {
+  const words = topic.replace(/^customer_/, '').split('_').join(' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Merge Dwolla events, transfers and HubSpot record timestamps into one list, newest first
+ */
+export function buildActivityTimeline(data: CorrelatedCustomerData, dwollaEvents: DwollaEvent[]): TimelineEvent[] {
+  const timeline: TimelineEvent[] = []
+
+  dwollaEvents.forEach(event => {
+    timeline.push({
+      id: `dwolla-event-${event.id}`,
+      timestamp: event.created,
+      source: 'dwolla',
+      type: getEventType(event.topic),
+      title: formatTopic(event.topic),
+      detail: event.resourceId !== data.dwolla.customer?.id ? event.resourceId : undefined
+    })
+  })
+
+  // Transfers whose lifecycle events were not returned still show when they started
+  const transfersWithEvents = new Set(dwollaEvents.map(event => event.resourceId))
+  data.dwolla.transfers
+    .filter(transfer => !transfersWithEvents.has(transfer.id))
+    .forEach(transfer => {
+      timeline.push({
+        id: `dwolla-transfer-${transfer.id}`,
+        timestamp: transfer.created,
+        source: 'dwolla',
+        type: 'transfer',
+        title: `Transfer of $${transfer.amount.value} created`,
+        detail: `Currently ${transfer.status} · ${transfer.id}`
+      })
+    })
+
+  if (data.dwolla.customer && !dwollaEvents.some(event => event.topic === 'customer_created')) {
+    timeline.push({
+      id: `dwolla-customer-${data.dwolla.customer.id}`,
+      timestamp: data.dwolla.customer.created,
+      source: 'dwolla',
+      type: 'customer',
+      title: 'Customer created in Dwolla',
+      detail: `Currently ${data.dwolla.customer.status}`
+    })
+  }
+
+  const company = data.hubspot.company
+  if (company) {
+    timeline.push({
+      id: `hubspot-company-created-${company.id}`,
+      timestamp: company.createdAt,
+      source: 'hubspot',
+      type: 'record',
+      title: 'Company created in HubSpot',
+      detail: company.properties.name
+    })
+    if (company.updatedAt && company.updatedAt !== company.createdAt) {
+      timeline.push({
+        id: `hubspot-company-updated-${company.id}`,
+        timestamp: company.updatedAt,
+        source: 'hubspot',
+        type: 'record',
+        title: 'Company last updated in HubSpot',
+        detail: company.properties.name
+      })
+    }
+  }
+
+  data.hubspot.contacts.forEach(contact => {
+    const name = `${contact.properties.firstname || ''} ${contact.properties.lastname || ''}`.trim() || contact.properties.email
+    timeline.push({
+      id: `hubspot-contact-created-${contact.id}`,
+      timestamp: contact.createdAt,
+      source: 'hubspot',
+      type: 'record',
+      title: 'Contact created in HubSpot',
+      detail: name
+    })
+    if (contact.updatedAt && contact.updatedAt !== contact.createdAt) {
+      timeline.push({
+        id: `hubspot-contact-updated-${contact.id}`,
+        timestamp: contact.updatedAt,
+        source: 'hubspot',
+        type: 'record',
+        title: 'Contact last updated in HubSpot',
+        detail: name
+      })
+    }
+  })
+
+  return timeline
+    .filter(event => !!event.timestamp && !isNaN(new Date(event.timestamp).getTime()))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+}
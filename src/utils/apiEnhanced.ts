@@ -4,11 +4,23 @@ import { logger, generateRequestId, LogTimer } from './logger'
 import { rateLimiter, RateLimitError } from './rateLimiter'
 import { getAccessToken } from './auth'
 import { env } from '../config/env'
+import { normalizePhoneNumber, getNationalPhoneNumber } from './validation'
 import { 
   HubSpotContactSearchResponse, 
   HubSpotCompanySearchResponse,
+  HubSpotSearchCursor,
+  HubSpotContact,
+  HubSpotCompany,
+  HubSpotNote,
+  HubSpotTicket,
+  DwollaCustomer,
   DwollaCustomerSearchResponse,
-  DwollaTransferSearchResponse 
+  DwollaTransfer,
+  DwollaTransferSearchResponse,
+  DwollaTransferDetail,
+  DwollaFundingSourceResponse,
+  DwollaEventResponse,
+  DwollaWebhookEventResponse
 } from '../types'
 
 // Types
@@ -372,6 +384,19 @@ export class EnhancedApiClient {
   }
 }
 
+// HubSpot search pages hold at most 100 results; `paging.next.after` continues from there
+const HUBSPOT_PAGE_SIZE = 100
+
+// HubSpot caps the number of values in a single IN filter
+export const HUBSPOT_IN_FILTER_LIMIT = 100
+
+// HubSpot-defined association type IDs for notes
+const HUBSPOT_NOTE_TO_COMPANY = 190
+const HUBSPOT_NOTE_TO_CONTACT = 202
+const HUBSPOT_TICKET_TO_COMPANY = 339
+
+const COMPANY_PROPERTIES = ['name', 'domain', 'dwolla_id', 'onboarding_step', 'onboarding_status', 'sob', 'associated_policies']
+
 // Enhanced HubSpot Client
 export class EnhancedHubSpotClient extends EnhancedApiClient {
   constructor() {
@@ -390,7 +415,7 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
           value: email
         }]
       }],
-      properties: ['firstname', 'lastname', 'email', 'phone', 'company']
+      properties: ['firstname', 'lastname', 'email', 'phone', 'mobilephone', 'company']
     }
 
     return this.request<HubSpotContactSearchResponse>('/crm/v3/objects/contacts/search', {
@@ -399,7 +424,87 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
     })
   }
 
-  async searchCompanies(query: string): Promise<HubSpotCompanySearchResponse> {
+  async searchContactsByPhone(phone: string): Promise<HubSpotContactSearchResponse> {
+    // Phone properties are free-form, so match the E.164 value directly and fall back
+    // to HubSpot's digits-only calculated properties (filter groups are ORed)
+    const nationalNumber = getNationalPhoneNumber(phone)
+    const searchRequest = {
+      filterGroups: [
+        { filters: [{ propertyName: 'phone', operator: 'EQ', value: phone }] },
+        { filters: [{ propertyName: 'mobilephone', operator: 'EQ', value: phone }] },
+        { filters: [{ propertyName: 'hs_searchable_calculated_phone_number', operator: 'EQ', value: nationalNumber }] },
+        { filters: [{ propertyName: 'hs_searchable_calculated_mobile_number', operator: 'EQ', value: nationalNumber }] }
+      ],
+      properties: ['firstname', 'lastname', 'email', 'phone', 'mobilephone', 'company'],
+      limit: HUBSPOT_PAGE_SIZE
+    }
+
+    return this.request<HubSpotContactSearchResponse>('/crm/v3/objects/contacts/search', {
+      method: 'POST',
+      body: JSON.stringify(searchRequest)
+    })
+  }
+
+  async getCompanyById(id: string): Promise<HubSpotCompany> {
+    const properties = COMPANY_PROPERTIES.join(',')
+    return this.request<HubSpotCompany>(`/crm/v3/objects/companies/${id}?properties=${properties}`, {
+      method: 'GET'
+    })
+  }
+
+  async updateCompany(id: string, properties: Partial<HubSpotCompany['properties']>): Promise<HubSpotCompany> {
+    return this.request<HubSpotCompany>(`/crm/v3/objects/companies/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ properties })
+    })
+  }
+
+  async createNote(body: string, associations: { companyIds: string[], contactIds: string[] }): Promise<HubSpotNote> {
+    const noteRequest = {
+      properties: {
+        hs_note_body: body,
+        hs_timestamp: new Date().toISOString()
+      },
+      associations: [
+        ...associations.companyIds.map(id => ({
+          to: { id },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: HUBSPOT_NOTE_TO_COMPANY }]
+        })),
+        ...associations.contactIds.map(id => ({
+          to: { id },
+          types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: HUBSPOT_NOTE_TO_CONTACT }]
+        }))
+      ]
+    }
+
+    return this.request<HubSpotNote>('/crm/v3/objects/notes', {
+      method: 'POST',
+      body: JSON.stringify(noteRequest)
+    })
+  }
+
+  async createTicket(properties: HubSpotTicket['properties'], companyId: string): Promise<HubSpotTicket> {
+    const ticketRequest = {
+      properties,
+      associations: [{
+        to: { id: companyId },
+        types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: HUBSPOT_TICKET_TO_COMPANY }]
+      }]
+    }
+
+    return this.request<HubSpotTicket>('/crm/v3/objects/tickets', {
+      method: 'POST',
+      body: JSON.stringify(ticketRequest)
+    })
+  }
+
+  async getAccountDetails(): Promise<{ portalId: number }> {
+    return this.request<{ portalId: number }>('/account-info/v3/details', {
+      method: 'GET'
+    })
+  }
+
+  async searchCompanies(query: string, after?: string): Promise<HubSpotCompanySearchResponse> {
     const searchRequest = {
       filterGroups: [{
         filters: [{
@@ -408,8 +513,9 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
           value: query
         }]
       }],
-      properties: ['name', 'domain', 'dwolla_id', 'onboarding_step', 'onboarding_status', 'sob', 'associated_policies'],
-      limit: 100
+      properties: COMPANY_PROPERTIES,
+      limit: HUBSPOT_PAGE_SIZE,
+      ...(after && { after })
     }
 
     return this.request<HubSpotCompanySearchResponse>('/crm/v3/objects/companies/search', {
@@ -418,20 +524,68 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
     })
   }
 
-  async searchByName(name: string): Promise<{ contacts: any[], companies: any[] }> {
+  async searchCompaniesByDwollaIds(dwollaIds: string[]): Promise<HubSpotCompany[]> {
+    const batches: string[][] = []
+    for (let i = 0; i < dwollaIds.length; i += HUBSPOT_IN_FILTER_LIMIT) {
+      batches.push(dwollaIds.slice(i, i + HUBSPOT_IN_FILTER_LIMIT))
+    }
+
+    const responses = await Promise.all(batches.map(batch =>
+      this.request<HubSpotCompanySearchResponse>('/crm/v3/objects/companies/search', {
+        method: 'POST',
+        body: JSON.stringify({
+          filterGroups: [{
+            filters: [{
+              propertyName: 'dwolla_id',
+              operator: 'IN',
+              values: batch
+            }]
+          }],
+          properties: COMPANY_PROPERTIES,
+          limit: HUBSPOT_PAGE_SIZE
+        })
+      })
+    ))
+
+    return responses.flatMap(response => response.results || [])
+  }
+
+  async searchByName(name: string, cursor?: HubSpotSearchCursor): Promise<{
+    contacts: HubSpotContact[]
+    companies: HubSpotCompany[]
+    next?: HubSpotSearchCursor
+  }> {
+    // With a cursor, only fetch the object types that still have pages left
+    const fetchContacts = !cursor || !!cursor.contacts
+    const fetchCompanies = !cursor || !!cursor.companies
+
     // Search both contacts and companies by name
     const [contacts, companies] = await Promise.allSettled([
-      this.searchContactsByName(name),
-      this.searchCompanies(name)
+      fetchContacts ? this.searchContactsByName(name, cursor?.contacts) : Promise.resolve(null),
+      fetchCompanies ? this.searchCompanies(name, cursor?.companies) : Promise.resolve(null)
     ])
 
+    // A missing half is tolerated, but not one missing for lack of rate limit budget
+    const rateLimited = [contacts, companies].find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected' && result.reason instanceof RateLimitError
+    )
+    if (rateLimited) {
+      throw rateLimited.reason
+    }
+
+    const contactsAfter = contacts.status === 'fulfilled' ? contacts.value?.paging?.next?.after : undefined
+    const companiesAfter = companies.status === 'fulfilled' ? companies.value?.paging?.next?.after : undefined
+
     return {
-      contacts: contacts.status === 'fulfilled' ? contacts.value.results : [],
-      companies: companies.status === 'fulfilled' ? companies.value.results : []
+      contacts: contacts.status === 'fulfilled' ? contacts.value?.results || [] : [],
+      companies: companies.status === 'fulfilled' ? companies.value?.results || [] : [],
+      next: contactsAfter || companiesAfter
+        ? { contacts: contactsAfter, companies: companiesAfter }
+        : undefined
     }
   }
 
-  private async searchContactsByName(name: string): Promise<any> {
+  private async searchContactsByName(name: string, after?: string): Promise<HubSpotContactSearchResponse> {
     const nameParts = name.split(' ')
     const filters = []
 
@@ -457,11 +611,12 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
 
     const searchRequest = {
       filterGroups: [{ filters }],
-      properties: ['firstname', 'lastname', 'email', 'phone', 'company'],
-      limit: 100
+      properties: ['firstname', 'lastname', 'email', 'phone', 'mobilephone', 'company'],
+      limit: HUBSPOT_PAGE_SIZE,
+      ...(after && { after })
     }
 
-    return this.request('/crm/v3/objects/contacts/search', {
+    return this.request<HubSpotContactSearchResponse>('/crm/v3/objects/contacts/search', {
       method: 'POST',
       body: JSON.stringify(searchRequest)
     })
@@ -471,6 +626,15 @@ export class EnhancedHubSpotClient extends EnhancedApiClient {
 // Enhanced Dwolla Client - Now uses proxy instead of direct OAuth
 import { dwollaProxy, DwollaProxyError } from '../api/dwollaProxy'
 
+// Customer ID from a Dwolla HAL link such as https://api.dwolla.com/customers/{id}
+function extractDwollaCustomerId(href?: string): string | undefined {
+  return href?.match(/\/customers\/([a-f0-9-]{36})/i)?.[1]
+}
+
+// Dwolla caps list endpoints at 200 items per page
+export const DWOLLA_PAGE_SIZE = 200
+export const DWOLLA_SEARCH_MAX_PAGES = 5
+
 export class EnhancedDwollaClient extends EnhancedApiClient {
   constructor() {
     const environment = env.VITE_DWOLLA_ENVIRONMENT || 'sandbox'
@@ -509,14 +673,34 @@ export class EnhancedDwollaClient extends EnhancedApiClient {
         const emailMatch = endpoint.match(/email=([^&]+)/)
         const email = emailMatch ? decodeURIComponent(emailMatch[1]) : ''
         result = await dwollaProxy.searchCustomers({ email, limit: 100 })
-      } else if (endpoint === '/customers?limit=200') {
-        // For name search, we get all customers
-        result = await dwollaProxy.searchCustomers({ limit: 200 })
+      } else if (endpoint.includes('/customers?search=')) {
+        const params = new URLSearchParams(endpoint.split('?')[1])
+        result = await dwollaProxy.searchCustomers({
+          search: params.get('search') || '',
+          limit: parseInt(params.get('limit') || '200'),
+          offset: parseInt(params.get('offset') || '0')
+        })
+      } else if (endpoint.match(/^\/customers\/([^\/?]+)$/)) {
+        const customerId = endpoint.match(/^\/customers\/([^\/?]+)$/)?.[1] || ''
+        result = await dwollaProxy.getCustomer(customerId)
       } else if (endpoint.match(/^\/customers\/([^\/]+)\/transfers/)) {
         const matches = endpoint.match(/^\/customers\/([^\/]+)\/transfers\?limit=(\d+)/)
         const customerId = matches?.[1] || ''
         const limit = matches?.[2] ? parseInt(matches[2]) : 50
         result = await dwollaProxy.getCustomerTransfers(customerId, limit)
+      } else if (endpoint.match(/^\/customers\/([^\/]+)\/funding-sources$/)) {
+        const customerId = endpoint.match(/^\/customers\/([^\/]+)\/funding-sources$/)?.[1] || ''
+        result = await dwollaProxy.getCustomerFundingSources(customerId)
+      } else if (endpoint.match(/^\/customers\/([^\/]+)\/events$/)) {
+        const customerId = endpoint.match(/^\/customers\/([^\/]+)\/events$/)?.[1] || ''
+        result = await dwollaProxy.getCustomerEvents(customerId)
+      } else if (endpoint.startsWith('/webhook-events?')) {
+        const params = new URLSearchParams(endpoint.split('?')[1])
+        const customerIds = params.get('customerIds')
+        result = await dwollaProxy.getWebhookEvents(
+          parseInt(params.get('after') || '0'),
+          customerIds ? customerIds.split(',') : []
+        )
       } else if (endpoint.match(/^\/transfers\/(.+)$/)) {
         const transferId = endpoint.match(/^\/transfers\/(.+)$/)?.[1] || ''
         result = await dwollaProxy.getTransfer(transferId)
@@ -570,28 +754,123 @@ export class EnhancedDwollaClient extends EnhancedApiClient {
   }
 
   async searchCustomersByName(name: string): Promise<DwollaCustomerSearchResponse> {
-    // Dwolla doesn't have direct name search, so we'll need to filter results
-    const allCustomers = await this.request<DwollaCustomerSearchResponse>('/customers?limit=200')
-    
-    if (!allCustomers._embedded?.customers) {
-      return { _embedded: { customers: [] } }
+    return this.searchCustomersByTerm(name)
+  }
+
+  async searchCustomersByPhone(phone: string): Promise<DwollaCustomerSearchResponse> {
+    // Dwolla stores phone numbers as bare digits; search on those and keep only exact matches
+    const response = await this.searchCustomersByTerm(getNationalPhoneNumber(phone))
+    const customers = (response._embedded?.customers || []).filter(
+      customer => !!customer.phone && normalizePhoneNumber(customer.phone) === phone
+    )
+
+    return { _embedded: { customers }, total: customers.length, truncated: response.truncated }
+  }
+
+  private async searchCustomersByTerm(term: string): Promise<DwollaCustomerSearchResponse> {
+    // Dwolla's search parameter matches name, email, business name and phone server-side,
+    // so page through with offset until everything is fetched or the page cap is hit
+    const customers: DwollaCustomer[] = []
+    let total = 0
+    let offset = 0
+
+    for (let page = 0; page < DWOLLA_SEARCH_MAX_PAGES; page++) {
+      const response = await this.request<DwollaCustomerSearchResponse>(
+        `/customers?search=${encodeURIComponent(term)}&limit=${DWOLLA_PAGE_SIZE}&offset=${offset}`
+      )
+      const pageCustomers = response._embedded?.customers || []
+
+      customers.push(...pageCustomers)
+      total = response.total ?? customers.length
+      offset += pageCustomers.length
+
+      if (pageCustomers.length < DWOLLA_PAGE_SIZE || customers.length >= total) {
+        break
+      }
     }
 
-    const nameLower = name.toLowerCase()
-    const filtered = allCustomers._embedded.customers.filter((customer) => {
-      const fullName = `${customer.firstName} ${customer.lastName}`.toLowerCase()
-      const businessName = customer.businessName?.toLowerCase() || ''
-      return fullName.includes(nameLower) || businessName.includes(nameLower)
-    })
+    const truncated = customers.length < total
 
-    return { _embedded: { customers: filtered } }
+    if (truncated) {
+      logger.warn('Dwolla customer search truncated', {
+        fetched: customers.length,
+        total,
+        maxPages: DWOLLA_SEARCH_MAX_PAGES
+      })
+    }
+
+    return { _embedded: { customers }, total, truncated }
   }
 
   async getCustomerTransfers(customerId: string, limit = 50): Promise<DwollaTransferSearchResponse> {
     return this.request<DwollaTransferSearchResponse>(`/customers/${customerId}/transfers?limit=${limit}`)
   }
 
-  async getTransferById(id: string): Promise<any> {
-    return this.request(`/transfers/${id}`)
+  async getCustomerFundingSources(customerId: string): Promise<DwollaFundingSourceResponse> {
+    return this.request<DwollaFundingSourceResponse>(`/customers/${customerId}/funding-sources`)
+  }
+
+  async getCustomerEvents(customerId: string): Promise<DwollaEventResponse> {
+    return this.request<DwollaEventResponse>(`/customers/${customerId}/events`)
+  }
+
+  // Polled in the background and served by the backend, so it does not count against the Dwolla budget
+  async getWebhookEvents(after: number, customerIds: string[]): Promise<DwollaWebhookEventResponse> {
+    const params = new URLSearchParams({ after: String(after), customerIds: customerIds.join(',') })
+    return this.request<DwollaWebhookEventResponse>(`/webhook-events?${params}`, { skipRateLimit: true })
+  }
+
+  async getCustomerById(id: string): Promise<DwollaCustomer> {
+    return this.request<DwollaCustomer>(`/customers/${id}`)
+  }
+
+  // Fetch several customers by ID, skipping any that no longer exist
+  async getCustomersByIds(ids: string[]): Promise<DwollaCustomer[]> {
+    const results = await Promise.allSettled(ids.map(id => this.getCustomerById(id)))
+    const rateLimited = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected' && result.reason instanceof RateLimitError
+    )
+    if (rateLimited) {
+      throw rateLimited.reason
+    }
+
+    return results
+      .filter((result): result is PromiseFulfilledResult<DwollaCustomer> => result.status === 'fulfilled')
+      .map(result => result.value)
+  }
+
+  async getTransferById(id: string): Promise<DwollaTransferDetail> {
+    return this.request<DwollaTransferDetail>(`/transfers/${id}`)
+  }
+
+  /**
+   * Resolve a Dwolla UUID that may be either a customer ID or a transfer ID.
+   * A transfer resolves to the customers on either side of it.
+   */
+  async lookupById(id: string): Promise<{ customers: DwollaCustomer[], transfers: DwollaTransfer[] }> {
+    try {
+      const customer = await this.getCustomerById(id)
+      return { customers: [customer], transfers: [] }
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) {
+        throw error
+      }
+    }
+
+    const transfer = await this.getTransferById(id)
+    const sourceId = extractDwollaCustomerId(transfer._links?.source?.href)
+    const destinationId = extractDwollaCustomerId(transfer._links?.destination?.href)
+
+    const customerIds = [sourceId, destinationId].filter((customerId): customerId is string => !!customerId)
+    const customers = await Promise.all(customerIds.map(customerId => this.getCustomerById(customerId)))
+
+    // Populate source/destination so correlation can attach the transfer to its customers
+    const resolvedTransfer: DwollaTransfer = {
+      ...transfer,
+      source: { id: sourceId || '', type: sourceId ? 'customer' : 'account' },
+      destination: { id: destinationId || '', type: destinationId ? 'customer' : 'account' }
+    }
+
+    return { customers, transfers: [resolvedTransfer] }
   }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { logger } from './logger'
+
+export interface AuditChange {
+  property: string
+  previousValue: string | null
+  newValue: string | null
+}
+
+export interface AuditLogEntry {
+  id: string
+  timestamp: number
+  action: string
+  objectType: 'company' | 'contact' | 'note' | 'ticket'
+  objectId: string
+  changes: AuditChange[]
+  status: 'success' | 'failed'
+  error?: string
+  // Audit entry this one reverses, for undo operations
+  undoOf?: string
+}
+
+/**
+ * Records every write the extension makes to HubSpot so changes can be reviewed later
+ */
+export class AuditLogService {
+  private readonly STORAGE_KEY = 'audit_log'
+  private readonly MAX_ENTRIES = 500
+
+  /**
+   * Append an entry and return it with its generated ID
+   */
+  async record(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<AuditLogEntry> {
+    const newEntry: AuditLogEntry = {
+      ...entry,
+      id: this.generateId(),
+      timestamp: Date.now()
+    }
+
+    try {
+      const entries = await this.getEntries()
+      const updatedEntries = [newEntry, ...entries].slice(0, this.MAX_ENTRIES)
+      await chrome.storage.local.set({ [this.STORAGE_KEY]: updatedEntries })
+
+      logger.info('Audit entry recorded', {
+        action: entry.action,
+        objectType: entry.objectType,
+        objectId: entry.objectId,
+        status: entry.status
+      })
+    } catch (error) {
+      logger.error('Failed to record audit entry', error as Error, { action: entry.action })
+    }
+
+    return newEntry
+  }
+
+  /**
+   * Get all entries, newest first
+   */
+  async getEntries(): Promise<AuditLogEntry[]> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY)
+      return result[this.STORAGE_KEY] || []
+    } catch (error) {
+      logger.error('Failed to get audit log', error as Error)
+      return []
+    }
+  }
+
+  private generateId(): string {
+    return `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService()
@@ -7,21 +7,48 @@ const API_KEY = env.VITE_API_KEY || 'development-key'
 
 interface TokenResponse {
   access_token: string
-  refresh_token?: string
+  // Opaque handle to the refresh token the backend keeps; the refresh token itself never reaches the extension
+  refresh_handle?: string
   expires_in: number
   error?: string
 }
 
 interface StoredToken {
   access_token: string
-  refresh_token?: string
+  refresh_handle?: string
   expires_at: number
 }
 
+// Per-flow OAuth values: `state` ties the redirect to the flow that started it, and the
+// PKCE verifier proves the code is redeemed by the same party that requested it
+export interface OAuthFlowParams {
+  state: string
+  codeVerifier: string
+  codeChallenge: string
+}
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const randomBase64Url = (byteLength: number): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)))
+
+export async function createOAuthFlowParams(): Promise<OAuthFlowParams> {
+  const codeVerifier = randomBase64Url(32)
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+
+  return {
+    state: randomBase64Url(16),
+    codeVerifier,
+    codeChallenge: base64UrlEncode(new Uint8Array(digest))
+  }
+}
+
 // Exchange authorization code for tokens via backend service
 export async function exchangeCodeForToken(
   code: string, 
-  provider: 'hubspot' | 'dwolla'
+  provider: 'hubspot' | 'dwolla',
+  codeVerifier?: string
 ): Promise<TokenResponse> {
   try {
     const response = await fetch(`${BACKEND_API_URL}/api/oauth/exchange`, {
@@ -34,7 +61,8 @@ export async function exchangeCodeForToken(
       body: JSON.stringify({ 
         code, 
         provider,
-        redirect_uri: chrome.identity.getRedirectURL()
+        redirect_uri: chrome.identity.getRedirectURL(),
+        code_verifier: codeVerifier
       })
     })
 
@@ -62,11 +90,12 @@ export async function exchangeCodeForToken(
 // Store tokens securely in Chrome storage
 async function storeTokens(
   provider: 'hubspot' | 'dwolla', 
-  tokenData: TokenResponse
+  tokenData: TokenResponse,
+  refreshHandle = tokenData.refresh_handle
 ): Promise<void> {
   const storageData: StoredToken = {
     access_token: tokenData.access_token,
-    refresh_token: tokenData.refresh_token,
+    refresh_handle: refreshHandle,
     expires_at: Date.now() + (tokenData.expires_in * 1000)
   }
 
@@ -100,8 +129,8 @@ export async function getAccessToken(
     const expiresIn = tokenData.expires_at - Date.now()
     if (expiresIn < 5 * 60 * 1000) {
       // Token expired or expiring soon, refresh it
-      if (tokenData.refresh_token) {
-        const newToken = await refreshAccessToken(provider, tokenData.refresh_token)
+      if (tokenData.refresh_handle) {
+        const newToken = await refreshAccessToken(provider, tokenData.refresh_handle)
         return newToken.access_token
       } else {
         // No refresh token, user must re-authenticate
@@ -117,13 +146,13 @@ export async function getAccessToken(
   }
 }
 
-// Refresh access token using refresh token
+// Have the backend mint a new access token from the refresh token it holds for this handle
 async function refreshAccessToken(
   provider: 'hubspot' | 'dwolla',
-  refreshToken: string
+  refreshHandle: string
 ): Promise<TokenResponse> {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/api/oauth/refresh`, {
+    const response = await fetch(`${BACKEND_API_URL}/api/oauth/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -131,8 +160,7 @@ async function refreshAccessToken(
         'X-Extension-ID': chrome.runtime.id
       },
       body: JSON.stringify({ 
-        refresh_token: refreshToken,
-        provider 
+        refresh_handle: refreshHandle
       })
     })
 
@@ -142,8 +170,8 @@ async function refreshAccessToken(
 
     const tokenData = await response.json() as TokenResponse
     
-    // Store new tokens
-    await storeTokens(provider, tokenData)
+    // Store new tokens; the handle stays the same
+    await storeTokens(provider, tokenData, refreshHandle)
     
     return tokenData
   } catch (error) {
@@ -163,8 +191,32 @@ export async function clearTokens(provider: 'hubspot' | 'dwolla'): Promise<void>
   ])
 }
 
+// Have the backend forget the refresh token, so the handle cannot mint tokens after logout
+async function revokeRefreshHandle(provider: 'hubspot' | 'dwolla'): Promise<void> {
+  const result = await chrome.storage.local.get(`${provider}_token`)
+  const tokenData = result[`${provider}_token`] as StoredToken | undefined
+  if (!tokenData?.refresh_handle) {
+    return
+  }
+
+  try {
+    await fetch(`${BACKEND_API_URL}/api/oauth/token`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': API_KEY,
+        'X-Extension-ID': chrome.runtime.id
+      },
+      body: JSON.stringify({ refresh_handle: tokenData.refresh_handle })
+    })
+  } catch (error) {
+    console.error(`Failed to revoke refresh token for ${provider}:`, error)
+  }
+}
+
 // Clear all authentication data
 export async function clearAllTokens(): Promise<void> {
+  await revokeRefreshHandle('hubspot')
   await clearTokens('hubspot')
   await clearTokens('dwolla')
   
@@ -200,9 +252,9 @@ export async function isAuthenticated(provider: 'hubspot' | 'dwolla'): Promise<b
     // Check if token is expired
     if (token.expires_at && Date.now() > token.expires_at) {
       // Try to refresh if we have a refresh token
-      if (token.refresh_token) {
+      if (token.refresh_handle) {
         try {
-          await refreshAccessToken(provider, token.refresh_token)
+          await refreshAccessToken(provider, token.refresh_handle)
           return true
         } catch {
           await clearTokens(provider)
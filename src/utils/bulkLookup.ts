@@ -0,0 +1,221 @@
+import { CorrelatedCustomerData } from './dataCorrelation'
+import { validateSearchQuery, sanitizeSearchQuery } from './validation'
+import { toCsv } from './export'
+import { logger } from './logger'
+
+export type BulkLinkStatus = 'linked' | 'hubspot_only' | 'dwolla_only' | 'not_found'
+
+export interface BulkLookupRow {
+  query: string
+  status: 'queued' | 'done' | 'failed' | 'invalid'
+  linkStatus?: BulkLinkStatus
+  resultCount?: number
+  companyName?: string
+  dwollaStatus?: string
+  inconsistencyCount?: number
+  error?: string
+}
+
+export interface BulkLookupJob {
+  id: string
+  createdAt: number
+  status: 'running' | 'paused' | 'completed' | 'cancelled'
+  rows: BulkLookupRow[]
+  // Set while waiting for rate limit budgets to reset
+  resumeAt?: number
+  completedAt?: number
+}
+
+export const MAX_BULK_QUERIES = 200
+
+// Header names that identify the column to search on in an uploaded CSV
+const QUERY_COLUMNS = ['email', 'query', 'search', 'dwolla_id', 'phone', 'name', 'company']
+
+/**
+ * Split CSV text into rows of trimmed cells. Quoted cells may hold commas, line
+ * breaks and "" for a literal quote, as spreadsheet exports write them.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (char === ',') {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      rows.push([...row, cell.trim()])
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  rows.push([...row, cell.trim()])
+
+  return rows.filter(cells => cells.some(Boolean))
+}
+
+/**
+ * Turn a pasted list or CSV file into search queries. A CSV with a recognised header
+ * is read from that column, a single line is split on commas and semicolons, and
+ * anything else takes the first value on each line.
+ */
+export function parseBulkInput(text: string): string[] {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return []
+
+  const header = rows[0].map(cell => cell.toLowerCase())
+  const columnIndex = header.findIndex(cell => QUERY_COLUMNS.includes(cell))
+
+  let values: string[]
+  if (columnIndex >= 0) {
+    values = rows.slice(1).map(cells => cells[columnIndex] || '')
+  } else if (rows.length === 1) {
+    values = rows[0].flatMap(cell => cell.split(';'))
+  } else {
+    values = rows.map(cells => cells[0])
+  }
+
+  const seen = new Set<string>()
+  return values
+    .map(value => sanitizeSearchQuery(value))
+    .filter(value => {
+      const key = value.toLowerCase()
+      if (!value || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Reduce a search's correlated results to one table row
+ */
+export function summarizeLookup(query: string, correlatedData: CorrelatedCustomerData[]): BulkLookupRow {
+  const linked = correlatedData.find(data => data.correlation.isLinked)
+  const best = linked || correlatedData[0]
+
+  let linkStatus: BulkLinkStatus = 'not_found'
+  if (linked) linkStatus = 'linked'
+  else if (correlatedData.some(data => data.hubspot.company || data.hubspot.contacts.length > 0)) linkStatus = 'hubspot_only'
+  else if (correlatedData.some(data => data.dwolla.customer)) linkStatus = 'dwolla_only'
+
+  const customer = best?.dwolla.customer || correlatedData.find(data => data.dwolla.customer)?.dwolla.customer
+
+  return {
+    query,
+    status: 'done',
+    linkStatus,
+    resultCount: correlatedData.length,
+    companyName: best?.hubspot.company?.properties.name,
+    dwollaStatus: customer?.status,
+    inconsistencyCount: correlatedData.reduce((count, data) => count + data.correlation.inconsistencies.length, 0)
+  }
+}
+
+const linkStatusLabels: Record<BulkLinkStatus, string> = {
+  linked: 'Linked',
+  hubspot_only: 'HubSpot only',
+  dwolla_only: 'Dwolla only',
+  not_found: 'Not found'
+}
+
+export const getLinkStatusLabel = (status?: BulkLinkStatus): string =>
+  status ? linkStatusLabels[status] : ''
+
+export function toBulkLookupCsv(job: BulkLookupJob): string {
+  const header = ['Query', 'Result', 'Link status', 'HubSpot company', 'Dwolla status', 'Inconsistencies', 'Matches', 'Error']
+  return toCsv(header, job.rows.map(row => [
+    row.query,
+    row.status,
+    getLinkStatusLabel(row.linkStatus),
+    row.companyName,
+    row.dwollaStatus,
+    row.inconsistencyCount,
+    row.resultCount,
+    row.error
+  ]))
+}
+
+/**
+ * Stores the current bulk lookup so the service worker can work through it across
+ * restarts and rate limit pauses. Only one job exists at a time.
+ */
+export class BulkLookupService {
+  private readonly STORAGE_KEY = 'bulk_lookup_job'
+
+  async getJob(): Promise<BulkLookupJob | null> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY)
+      return result[this.STORAGE_KEY] || null
+    } catch (error) {
+      logger.error('Failed to get bulk lookup job', error as Error)
+      return null
+    }
+  }
+
+  /**
+   * Replace any existing job with a new one. Queries that fail validation are kept
+   * as invalid rows so they still appear in the export.
+   */
+  async createJob(queries: string[]): Promise<BulkLookupJob> {
+    if (queries.length === 0) {
+      throw new Error('Enter at least one email, name or ID')
+    }
+    if (queries.length > MAX_BULK_QUERIES) {
+      throw new Error(`Bulk lookup is limited to ${MAX_BULK_QUERIES} queries at a time`)
+    }
+
+    const job: BulkLookupJob = {
+      id: `bulk_${Date.now()}`,
+      createdAt: Date.now(),
+      status: 'running',
+      rows: queries.map(query => {
+        const validation = validateSearchQuery(query)
+        return validation.isValid
+          ? { query, status: 'queued' }
+          : { query, status: 'invalid', error: validation.error }
+      })
+    }
+
+    await this.saveJob(job)
+    logger.info('Bulk lookup created', { id: job.id, count: queries.length })
+    return job
+  }
+
+  async saveJob(job: BulkLookupJob): Promise<void> {
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: job })
+  }
+
+  /**
+   * Listen for progress written by the service worker
+   */
+  onJobChange(callback: (job: BulkLookupJob | null) => void): () => void {
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName === 'local' && changes[this.STORAGE_KEY]) {
+        callback(changes[this.STORAGE_KEY].newValue || null)
+      }
+    }
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }
+}
+
+// Export singleton instance
+export const bulkLookupService = new BulkLookupService()
@@ -0,0 +1,118 @@
+import { logger } from './logger'
+
+export interface CorrelationRules {
+  // Minimum name similarity (0-1) for a fuzzy company/customer match
+  nameMatchThreshold: number
+  // Similarity range (0-1) in which linked business names are flagged as differing
+  nameMismatchRange: {
+    min: number
+    max: number
+  }
+  // Which fields are compared when looking for inconsistencies
+  compareFields: {
+    businessName: boolean
+    status: boolean
+    contactName: boolean
+    dwollaId: boolean
+  }
+  // HubSpot onboarding_status -> Dwolla customer status
+  statusMap: Record<string, string>
+}
+
+export const DEFAULT_CORRELATION_RULES: CorrelationRules = {
+  nameMatchThreshold: 0.8,
+  nameMismatchRange: {
+    min: 0.5,
+    max: 0.9
+  },
+  compareFields: {
+    businessName: true,
+    status: true,
+    contactName: true,
+    dwollaId: true
+  },
+  statusMap: {
+    'complete': 'verified',
+    'in_progress': 'unverified',
+    'blocked': 'suspended'
+  }
+}
+
+/**
+ * Loads and persists correlation rules in chrome.storage.sync so they follow the agent
+ */
+export class CorrelationRulesService {
+  private readonly STORAGE_KEY = 'correlation_rules'
+
+  /**
+   * Get the saved rules, filling anything missing from the defaults
+   */
+  async getRules(): Promise<CorrelationRules> {
+    try {
+      const result = await chrome.storage.sync.get(this.STORAGE_KEY)
+      return this.withDefaults(result[this.STORAGE_KEY])
+    } catch (error) {
+      logger.error('Failed to load correlation rules', error as Error)
+      return DEFAULT_CORRELATION_RULES
+    }
+  }
+
+  /**
+   * Validate and save rules
+   */
+  async saveRules(rules: CorrelationRules): Promise<void> {
+    const error = this.validate(rules)
+    if (error) {
+      throw new Error(error)
+    }
+
+    await chrome.storage.sync.set({ [this.STORAGE_KEY]: rules })
+    logger.info('Correlation rules saved', {
+      nameMatchThreshold: rules.nameMatchThreshold,
+      statusMappings: Object.keys(rules.statusMap).length
+    })
+  }
+
+  /**
+   * Restore the default rules
+   */
+  async resetRules(): Promise<CorrelationRules> {
+    await chrome.storage.sync.remove(this.STORAGE_KEY)
+    return DEFAULT_CORRELATION_RULES
+  }
+
+  /**
+   * Returns an error message, or null when the rules are usable
+   */
+  validate(rules: CorrelationRules): string | null {
+    const inUnitRange = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1
+
+    if (!inUnitRange(rules.nameMatchThreshold)) {
+      return 'Name match threshold must be between 0 and 1'
+    }
+    if (!inUnitRange(rules.nameMismatchRange.min) || !inUnitRange(rules.nameMismatchRange.max)) {
+      return 'Name mismatch range must be between 0 and 1'
+    }
+    if (rules.nameMismatchRange.min >= rules.nameMismatchRange.max) {
+      return 'Name mismatch range minimum must be below its maximum'
+    }
+    if (Object.entries(rules.statusMap).some(([hubspot, dwolla]) => !hubspot.trim() || !dwolla.trim())) {
+      return 'Status mappings cannot be blank'
+    }
+    return null
+  }
+
+  private withDefaults(saved?: Partial<CorrelationRules>): CorrelationRules {
+    if (!saved) return DEFAULT_CORRELATION_RULES
+
+    return {
+      nameMatchThreshold: saved.nameMatchThreshold ?? DEFAULT_CORRELATION_RULES.nameMatchThreshold,
+      nameMismatchRange: { ...DEFAULT_CORRELATION_RULES.nameMismatchRange, ...saved.nameMismatchRange },
+      compareFields: { ...DEFAULT_CORRELATION_RULES.compareFields, ...saved.compareFields },
+      statusMap: saved.statusMap ?? DEFAULT_CORRELATION_RULES.statusMap
+    }
+  }
+}
+
+// Export singleton instance
+export const correlationRulesService = new CorrelationRulesService()
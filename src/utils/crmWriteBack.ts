@@ -0,0 +1,349 @@
+import { HubSpotCompany, HubSpotNote, HubSpotTicket } from '../types'
+import { CorrelatedCustomerData } from './dataCorrelation'
+import { EnhancedHubSpotClient, ApiError } from './apiEnhanced'
+import { auditLogService, AuditLogEntry } from './auditLog'
+import { logger } from './logger'
+
+type CompanyProperties = Partial<Record<keyof HubSpotCompany['properties'], string>>
+
+// Values needed to reverse a write, kept for UNDO_TTL
+interface UndoRecord {
+  companyId: string
+  previousProperties: CompanyProperties
+  createdAt: number
+}
+
+// Local storage rather than session storage, which the service worker clears after 30 idle minutes
+const UNDO_TTL = 8 * 60 * 60 * 1000 // 8 hours
+
+export interface WriteBackResult {
+  company: HubSpotCompany
+  auditEntry: AuditLogEntry
+}
+
+export interface OnboardingStatusUpdate {
+  companyId: string
+  companyName: string
+  previousStatus: string
+  onboardingStatus: string
+}
+
+export interface OnboardingStatusSyncResult {
+  companyId: string
+  success: boolean
+  auditId?: string
+  error?: string
+}
+
+/**
+ * The onboarding_status change that would resolve a result's status mismatch, if the
+ * correlation rules map the Dwolla status back to a HubSpot value
+ */
+export function getOnboardingStatusFix(data: CorrelatedCustomerData): OnboardingStatusUpdate | null {
+  const company = data.hubspot.company
+  const mismatch = data.correlation.inconsistencies.find(issue => issue.field === 'status' && issue.suggestedValue)
+  if (!company || !mismatch) return null
+
+  return {
+    companyId: company.id,
+    companyName: company.properties.name,
+    previousStatus: mismatch.hubspotValue,
+    onboardingStatus: mismatch.suggestedValue!
+  }
+}
+
+/**
+ * The result as it looks once an onboarding_status fix has been written
+ */
+export function applyOnboardingStatusFix(data: CorrelatedCustomerData, onboardingStatus: string): CorrelatedCustomerData {
+  if (!data.hubspot.company) return data
+
+  return {
+    ...data,
+    hubspot: {
+      ...data.hubspot,
+      company: {
+        ...data.hubspot.company,
+        properties: { ...data.hubspot.company.properties, onboarding_status: onboardingStatus }
+      }
+    },
+    correlation: {
+      ...data.correlation,
+      inconsistencies: data.correlation.inconsistencies.filter(issue => issue.field !== 'status')
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Writes changes back to HubSpot records, with an audit trail and time-limited undo
+ */
+export class CrmWriteBackService {
+  private readonly UNDO_KEY = 'write_back_undo'
+  private readonly PORTAL_ID_KEY = 'hubspot_portal_id'
+
+  /**
+   * Set the company's dwolla_id, refusing to overwrite a link to a different customer
+   */
+  async linkDwollaCustomer(companyId: string, dwollaId: string): Promise<WriteBackResult> {
+    return this.updateCompany(companyId, { dwolla_id: dwollaId }, 'link_accounts', current => {
+      if (current.properties.dwolla_id && current.properties.dwolla_id !== dwollaId) {
+        return `Company is already linked to Dwolla customer ${current.properties.dwolla_id}`
+      }
+      return null
+    })
+  }
+
+  /**
+   * Write mapped onboarding_status values one company at a time, skipping companies whose
+   * status changed in HubSpot since the search
+   */
+  async syncOnboardingStatus(updates: OnboardingStatusUpdate[]): Promise<OnboardingStatusSyncResult[]> {
+    const results: OnboardingStatusSyncResult[] = []
+
+    for (const update of updates) {
+      try {
+        const { auditEntry } = await this.updateCompany(
+          update.companyId,
+          { onboarding_status: update.onboardingStatus },
+          'sync_onboarding_status',
+          current => (current.properties.onboarding_status ?? '') !== (update.previousStatus ?? '')
+            ? `onboarding_status changed in HubSpot to "${current.properties.onboarding_status}" since the search`
+            : null
+        )
+        results.push({ companyId: update.companyId, success: true, auditId: auditEntry.id })
+      } catch (error) {
+        results.push({ companyId: update.companyId, success: false, error: (error as Error).message })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Update company properties, recording the previous values for audit and undo.
+   * `precondition` receives the current record and may return an error to abort the write.
+   */
+  async updateCompany(
+    companyId: string,
+    properties: CompanyProperties,
+    action: string,
+    precondition?: (current: HubSpotCompany) => string | null
+  ): Promise<WriteBackResult> {
+    const client = new EnhancedHubSpotClient()
+    const current = await client.getCompanyById(companyId)
+
+    const conflict = precondition?.(current)
+    if (conflict) {
+      throw new Error(conflict)
+    }
+
+    const previousProperties: CompanyProperties = {}
+    for (const key of Object.keys(properties) as (keyof CompanyProperties)[]) {
+      previousProperties[key] = current.properties[key] ?? ''
+    }
+
+    const changes = Object.entries(properties).map(([property, newValue]) => ({
+      property,
+      previousValue: previousProperties[property as keyof CompanyProperties] || null,
+      newValue: newValue || null
+    }))
+
+    try {
+      const company = await client.updateCompany(companyId, properties)
+      const auditEntry = await auditLogService.record({
+        action,
+        objectType: 'company',
+        objectId: companyId,
+        changes,
+        status: 'success'
+      })
+      await this.saveUndo(auditEntry.id, { companyId, previousProperties, createdAt: Date.now() })
+
+      return { company, auditEntry }
+    } catch (error) {
+      const writeError = this.toWriteError(error)
+      await auditLogService.record({
+        action,
+        objectType: 'company',
+        objectId: companyId,
+        changes,
+        status: 'failed',
+        error: writeError.message
+      })
+      throw writeError
+    }
+  }
+
+  /**
+   * Create a note on the company and contacts. The plain-text body is converted to the
+   * HTML HubSpot renders on the timeline.
+   */
+  async createNote(text: string, associations: { companyIds: string[], contactIds: string[] }): Promise<HubSpotNote> {
+    const client = new EnhancedHubSpotClient()
+    const body = text
+      .split('\n')
+      .map(line => escapeHtml(line))
+      .join('<br>')
+    const objectId = associations.companyIds[0] || associations.contactIds[0]
+
+    try {
+      const note = await client.createNote(body, associations)
+      await auditLogService.record({
+        action: 'create_note',
+        objectType: 'note',
+        objectId: note.id,
+        changes: [{ property: 'associations', previousValue: null, newValue: [...associations.companyIds, ...associations.contactIds].join(',') }],
+        status: 'success'
+      })
+      return note
+    } catch (error) {
+      const writeError = this.toWriteError(error)
+      await auditLogService.record({
+        action: 'create_note',
+        objectType: 'note',
+        objectId,
+        changes: [],
+        status: 'failed',
+        error: writeError.message
+      })
+      throw writeError
+    }
+  }
+
+  /**
+   * Open a ticket in the default pipeline, associated with the company
+   */
+  async createTicket(subject: string, content: string, companyId: string): Promise<{ ticket: HubSpotTicket, ticketUrl?: string }> {
+    const client = new EnhancedHubSpotClient()
+    let ticket: HubSpotTicket
+
+    try {
+      ticket = await client.createTicket({
+        subject,
+        content,
+        hs_pipeline: '0',
+        hs_pipeline_stage: '1',
+        hs_ticket_priority: 'HIGH'
+      }, companyId)
+      await auditLogService.record({
+        action: 'create_ticket',
+        objectType: 'ticket',
+        objectId: ticket.id,
+        changes: [{ property: 'subject', previousValue: null, newValue: subject }],
+        status: 'success'
+      })
+    } catch (error) {
+      const writeError = this.toWriteError(error)
+      await auditLogService.record({
+        action: 'create_ticket',
+        objectType: 'ticket',
+        objectId: companyId,
+        changes: [],
+        status: 'failed',
+        error: writeError.message
+      })
+      throw writeError
+    }
+
+    // The ticket exists even if the link cannot be built
+    try {
+      const portalId = await this.getPortalId(client)
+      return { ticket, ticketUrl: `https://app.hubspot.com/contacts/${portalId}/ticket/${ticket.id}` }
+    } catch (error) {
+      logger.warn('Could not resolve HubSpot portal ID', { error: (error as Error).message })
+      return { ticket }
+    }
+  }
+
+  /**
+   * Restore the values a write replaced. Only available for writes made this session.
+   */
+  async undo(auditId: string): Promise<WriteBackResult> {
+    const undoRecords = await this.getUndoRecords()
+    const record = undoRecords[auditId]
+    if (!record) {
+      throw new Error('This change can no longer be undone')
+    }
+
+    const client = new EnhancedHubSpotClient()
+    const changes = Object.entries(record.previousProperties).map(([property, value]) => ({
+      property,
+      previousValue: null,
+      newValue: value || null
+    }))
+
+    try {
+      const company = await client.updateCompany(record.companyId, record.previousProperties)
+      const auditEntry = await auditLogService.record({
+        action: 'undo',
+        objectType: 'company',
+        objectId: record.companyId,
+        changes,
+        status: 'success',
+        undoOf: auditId
+      })
+
+      delete undoRecords[auditId]
+      await chrome.storage.local.set({ [this.UNDO_KEY]: undoRecords })
+      logger.info('Write-back undone', { auditId, companyId: record.companyId })
+
+      return { company, auditEntry }
+    } catch (error) {
+      const writeError = this.toWriteError(error)
+      await auditLogService.record({
+        action: 'undo',
+        objectType: 'company',
+        objectId: record.companyId,
+        changes,
+        status: 'failed',
+        error: writeError.message,
+        undoOf: auditId
+      })
+      throw writeError
+    }
+  }
+
+  // Tokens granted before write access was requested get a 403 from HubSpot
+  private toWriteError(error: unknown): Error {
+    if (error instanceof ApiError && error.status === 403) {
+      return new Error('HubSpot rejected the change. Reconnect HubSpot to grant write access.')
+    }
+    return error as Error
+  }
+
+  // Needed to build app.hubspot.com links; cached for the session since the account can change on re-auth
+  private async getPortalId(client: EnhancedHubSpotClient): Promise<number> {
+    const result = await chrome.storage.session.get(this.PORTAL_ID_KEY)
+    if (result[this.PORTAL_ID_KEY]) {
+      return result[this.PORTAL_ID_KEY]
+    }
+
+    const { portalId } = await client.getAccountDetails()
+    await chrome.storage.session.set({ [this.PORTAL_ID_KEY]: portalId })
+    return portalId
+  }
+
+  // Expired records are dropped here and pruned from storage on the next write
+  private async getUndoRecords(): Promise<Record<string, UndoRecord>> {
+    const result = await chrome.storage.local.get(this.UNDO_KEY)
+    const undoRecords: Record<string, UndoRecord> = result[this.UNDO_KEY] || {}
+    return Object.fromEntries(
+      Object.entries(undoRecords).filter(([, record]) => Date.now() - record.createdAt < UNDO_TTL)
+    )
+  }
+
+  private async saveUndo(auditId: string, record: UndoRecord): Promise<void> {
+    const undoRecords = await this.getUndoRecords()
+    await chrome.storage.local.set({ [this.UNDO_KEY]: { ...undoRecords, [auditId]: record } })
+  }
+}
+
+// Export singleton instance
+export const crmWriteBackService = new CrmWriteBackService()
@@ -1,5 +1,6 @@
-import { HubSpotCompany, HubSpotContact, DwollaCustomer, DwollaTransfer } from '../types'
+import { HubSpotCompany, HubSpotContact, DwollaCustomer, DwollaTransfer, DwollaFundingSource } from '../types'
 import { logger } from './logger'
+import { CorrelationRules, DEFAULT_CORRELATION_RULES } from './correlationRules'
 
 export interface CorrelatedCustomerData {
   hubspot: {
@@ -9,10 +10,13 @@ export interface CorrelatedCustomerData {
   dwolla: {
     customer?: DwollaCustomer
     transfers: DwollaTransfer[]
+    // Set once the customer's transfer history is fetched; until then transfers are only those the search found
+    transfersLoaded?: boolean
+    fundingSources?: DwollaFundingSource[]
   }
   correlation: {
     isLinked: boolean
-    linkType: 'dwolla_id' | 'email' | 'name_match' | 'none'
+    linkType: 'dwolla_id' | 'email' | 'domain' | 'name_match' | 'none'
     confidence: number
     inconsistencies: DataInconsistency[]
   }
@@ -24,12 +28,46 @@ export interface DataInconsistency {
   dwollaValue: any
   severity: 'warning' | 'error'
   message: string
+  // HubSpot value that would resolve the inconsistency, when one is known
+  suggestedValue?: string
 }
 
+// Consumer mailbox providers say nothing about which company a customer belongs to
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mac.com', 'protonmail.com',
+  'proton.me', 'gmx.com', 'mail.com', 'zoho.com', 'yandex.com', 'comcast.net', 'att.net'
+])
+
+const DOMAIN_MATCH_CONFIDENCE = 75
+
 /**
  * Correlates HubSpot and Dwolla data to create unified customer profiles
  */
 export class DataCorrelationService {
+  private rules: CorrelationRules = DEFAULT_CORRELATION_RULES
+
+  /**
+   * Replace the thresholds, compared fields and status map used for correlation
+   */
+  setRules(rules: CorrelationRules): void {
+    this.rules = rules
+  }
+
+  /**
+   * IDs of Dwolla customers that no company in the result set points to via dwolla_id
+   */
+  findUnlinkedDwollaIds(hubspotCompanies: HubSpotCompany[], dwollaCustomers: DwollaCustomer[]): string[] {
+    const linkedIds = new Set(
+      hubspotCompanies
+        .map(company => company.properties.dwolla_id)
+        .filter((id): id is string => !!id)
+    )
+    return dwollaCustomers
+      .map(customer => customer.id)
+      .filter(id => !linkedIds.has(id))
+  }
+
   /**
    * Main correlation method that attempts to link HubSpot and Dwolla data
    */
@@ -127,58 +165,133 @@ export class DataCorrelationService {
       }
     })
 
-    // Third pass: Fuzzy name matching (lower confidence)
+    // Third pass: Match Dwolla email domain to company domain (medium confidence)
     hubspotCompanies.forEach(company => {
-      if (!company.properties.dwolla_id) {
-        dwollaCustomers
-          .filter(customer => !processedDwollaIds.has(customer.id))
-          .forEach(customer => {
-            const similarity = this.calculateNameSimilarity(
-              company.properties.name,
-              customer.businessName || ''
-            )
+      const companyDomain = this.normalizeDomain(company.properties.domain)
+      if (company.properties.dwolla_id || !companyDomain || FREE_MAIL_DOMAINS.has(companyDomain)) return
 
-            if (similarity > 0.8) {
-              processedDwollaIds.add(customer.id)
-              
-              const companyContacts = this.findRelatedContacts(company, hubspotContacts)
-              const inconsistencies = this.findInconsistencies(company, customer)
-              inconsistencies.push({
-                field: 'dwolla_id',
-                hubspotValue: null,
-                dwollaValue: customer.id,
-                severity: 'warning',
-                message: 'HubSpot company missing Dwolla ID - consider linking'
-              })
-
-              correlatedData.push({
-                hubspot: {
-                  company,
-                  contacts: companyContacts
-                },
-                dwolla: {
-                  customer,
-                  transfers: dwollaTransfers.filter(t => 
-                    t.source.id === customer.id || 
-                    t.destination.id === customer.id
-                  )
-                },
-                correlation: {
-                  isLinked: true,
-                  linkType: 'name_match',
-                  confidence: Math.round(similarity * 100),
-                  inconsistencies
-                }
-              })
-
-              logger.info('Correlated by name similarity', {
-                hubspotCompany: company.properties.name,
-                dwollaCustomer: customer.businessName,
-                similarity: Math.round(similarity * 100)
-              })
-            }
-          })
+      const isCorrelated = correlatedData.some(data => data.hubspot.company?.id === company.id)
+      if (isCorrelated) return
+
+      const candidates = dwollaCustomers.filter(customer => {
+        if (processedDwollaIds.has(customer.id)) return false
+        const emailDomain = this.getEmailDomain(customer.email)
+        if (!emailDomain || FREE_MAIL_DOMAINS.has(emailDomain)) return false
+        return emailDomain === companyDomain || emailDomain.endsWith(`.${companyDomain}`)
+      })
+
+      // Several customers can share the company's domain; link only the most likely one, preferring
+      // an exact domain over a subdomain, then the closest business name. The rest stay unlinked.
+      const scoreCandidate = (customer: DwollaCustomer) =>
+        (this.getEmailDomain(customer.email) === companyDomain ? 1 : 0) +
+        this.calculateNameSimilarity(company.properties.name, customer.businessName || '')
+      const customer = candidates.reduce<DwollaCustomer | undefined>(
+        (best, candidate) => !best || scoreCandidate(candidate) > scoreCandidate(best) ? candidate : best,
+        undefined
+      )
+      if (!customer) return
+
+      processedDwollaIds.add(customer.id)
+
+      const companyContacts = this.findRelatedContacts(company, hubspotContacts)
+      const inconsistencies = this.findInconsistencies(company, customer)
+      if (this.rules.compareFields.dwollaId) {
+        inconsistencies.push({
+          field: 'dwolla_id',
+          hubspotValue: null,
+          dwollaValue: customer.id,
+          severity: 'warning',
+          message: 'HubSpot company missing Dwolla ID - consider linking'
+        })
+      }
+
+      correlatedData.push({
+        hubspot: {
+          company,
+          contacts: companyContacts
+        },
+        dwolla: {
+          customer,
+          transfers: dwollaTransfers.filter(t => 
+            t.source.id === customer.id || 
+            t.destination.id === customer.id
+          )
+        },
+        correlation: {
+          isLinked: true,
+          linkType: 'domain',
+          confidence: DOMAIN_MATCH_CONFIDENCE,
+          inconsistencies
+        }
+      })
+
+      logger.info('Correlated by email domain', {
+        hubspotCompany: company.properties.name,
+        domain: companyDomain,
+        dwollaCustomer: customer.businessName || `${customer.firstName} ${customer.lastName}`
+      })
+    })
+
+    // Fourth pass: Fuzzy name matching (lower confidence), again linking only the closest name
+    hubspotCompanies.forEach(company => {
+      if (company.properties.dwolla_id) return
+
+      const isCorrelated = correlatedData.some(data => data.hubspot.company?.id === company.id)
+      if (isCorrelated) return
+
+      const match = dwollaCustomers
+        .filter(customer => !processedDwollaIds.has(customer.id))
+        .map(customer => ({
+          customer,
+          similarity: this.calculateNameSimilarity(company.properties.name, customer.businessName || '')
+        }))
+        .filter(({ similarity }) => similarity > this.rules.nameMatchThreshold)
+        .reduce<{ customer: DwollaCustomer, similarity: number } | undefined>(
+          (best, candidate) => !best || candidate.similarity > best.similarity ? candidate : best,
+          undefined
+        )
+      if (!match) return
+
+      const { customer, similarity } = match
+      processedDwollaIds.add(customer.id)
+
+      const companyContacts = this.findRelatedContacts(company, hubspotContacts)
+      const inconsistencies = this.findInconsistencies(company, customer)
+      if (this.rules.compareFields.dwollaId) {
+        inconsistencies.push({
+          field: 'dwolla_id',
+          hubspotValue: null,
+          dwollaValue: customer.id,
+          severity: 'warning',
+          message: 'HubSpot company missing Dwolla ID - consider linking'
+        })
       }
+
+      correlatedData.push({
+        hubspot: {
+          company,
+          contacts: companyContacts
+        },
+        dwolla: {
+          customer,
+          transfers: dwollaTransfers.filter(t => 
+            t.source.id === customer.id || 
+            t.destination.id === customer.id
+          )
+        },
+        correlation: {
+          isLinked: true,
+          linkType: 'name_match',
+          confidence: Math.round(similarity * 100),
+          inconsistencies
+        }
+      })
+
+      logger.info('Correlated by name similarity', {
+        hubspotCompany: company.properties.name,
+        dwollaCustomer: customer.businessName,
+        similarity: Math.round(similarity * 100)
+      })
     })
 
     // Add uncorrelated HubSpot data
@@ -272,14 +385,16 @@ export class DataCorrelationService {
   ): DataInconsistency[] {
     const inconsistencies: DataInconsistency[] = []
 
+    const { compareFields, nameMismatchRange, statusMap } = this.rules
+
     // Check business name match
-    if (customer.businessName && company.properties.name) {
+    if (compareFields.businessName && customer.businessName && company.properties.name) {
       const nameSimilarity = this.calculateNameSimilarity(
         company.properties.name,
         customer.businessName
       )
       
-      if (nameSimilarity < 0.9 && nameSimilarity > 0.5) {
+      if (nameSimilarity < nameMismatchRange.max && nameSimilarity > nameMismatchRange.min) {
         inconsistencies.push({
           field: 'businessName',
           hubspotValue: company.properties.name,
@@ -291,22 +406,18 @@ export class DataCorrelationService {
     }
 
     // Check status consistency
-    if (company.properties.onboarding_status && customer.status) {
-      const statusMap: Record<string, string> = {
-        'verified': 'complete',
-        'unverified': 'in_progress',
-        'suspended': 'blocked'
-      }
-
-      const mappedDwollaStatus = statusMap[customer.status] || customer.status
+    if (compareFields.status && company.properties.onboarding_status && customer.status) {
+      const expectedDwollaStatus = statusMap[company.properties.onboarding_status] || company.properties.onboarding_status
       
-      if (company.properties.onboarding_status !== mappedDwollaStatus) {
+      if (expectedDwollaStatus !== customer.status) {
+        const suggestedValue = Object.keys(statusMap).find(hubspotStatus => statusMap[hubspotStatus] === customer.status)
         inconsistencies.push({
           field: 'status',
           hubspotValue: company.properties.onboarding_status,
           dwollaValue: customer.status,
           severity: customer.status === 'suspended' ? 'error' : 'warning',
-          message: `Status mismatch: HubSpot shows "${company.properties.onboarding_status}", Dwolla shows "${customer.status}"`
+          message: `Status mismatch: HubSpot shows "${company.properties.onboarding_status}", Dwolla shows "${customer.status}"`,
+          ...(suggestedValue && { suggestedValue })
         })
       }
     }
@@ -324,8 +435,10 @@ export class DataCorrelationService {
   ): DataInconsistency[] {
     const inconsistencies: DataInconsistency[] = []
 
+    const { compareFields } = this.rules
+
     // Check name consistency
-    if (customer.type === 'personal') {
+    if (compareFields.contactName && customer.type === 'personal') {
       const hubspotFullName = `${contact.properties.firstname || ''} ${contact.properties.lastname || ''}`.trim()
       const dwollaFullName = `${customer.firstName} ${customer.lastName}`.trim()
 
@@ -341,7 +454,7 @@ export class DataCorrelationService {
     }
 
     // Check if company should have dwolla_id
-    if (company && !company.properties.dwolla_id && customer.id) {
+    if (compareFields.dwollaId && company && !company.properties.dwolla_id && customer.id) {
       inconsistencies.push({
         field: 'dwolla_id',
         hubspotValue: null,
@@ -354,6 +467,30 @@ export class DataCorrelationService {
     return inconsistencies
   }
 
+  /**
+   * Reduce a HubSpot domain value (which may include a scheme, www. or a path) to a bare host
+   */
+  private normalizeDomain(domain?: string): string | null {
+    if (!domain) return null
+
+    const host = domain
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/^www\./, '')
+      .split(/[/?#:]/)[0]
+
+    return host || null
+  }
+
+  /**
+   * Domain part of an email address, lowercased
+   */
+  private getEmailDomain(email?: string): string | null {
+    const domain = email?.split('@')[1]?.trim().toLowerCase()
+    return domain || null
+  }
+
   /**
    * Calculate similarity between two names (0-1)
    */
@@ -5,7 +5,9 @@ import { logger } from './logger'
 import { getAccessToken } from './auth'
 import { EnhancedHubSpotClient, EnhancedDwollaClient } from './apiEnhanced'
 import { dataCorrelationService } from './dataCorrelation'
-import { detectAndValidateQueryType } from './validation'
+import { correlationRulesService } from './correlationRules'
+import { DwollaCustomer, DwollaTransfer } from '../types'
+import { detectAndValidateQueryType, normalizePhoneNumber, isHubSpotRecordIdLike } from './validation'
 
 export async function performDirectSearch(query: string) {
   const timer = logger.startTimer('direct_search')
@@ -32,17 +34,36 @@ export async function performDirectSearch(query: string) {
     const queryType = queryInfo.type
     
     // Perform searches in parallel
-    const [hubspotResults, dwollaResults] = await Promise.all([
+    const [primaryHubspotResults, primaryDwollaResults] = await Promise.all([
       searchHubSpot(hubspotClient, query, queryType as string),
       searchDwolla(dwollaClient, query, queryType as string)
     ])
     
+    // Pull in Dwolla customers referenced by the companies' dwolla_id
+    const knownIds = new Set(primaryDwollaResults.customers.map(c => c.id))
+    const linkedIds = primaryHubspotResults.companies
+      .map(company => company.properties.dwolla_id)
+      .filter((id): id is string => !!id && !knownIds.has(id))
+    const dwollaResults = linkedIds.length > 0 && (queryType === 'hubspot_id' || queryType === 'phone')
+      ? {
+          ...primaryDwollaResults,
+          customers: [
+            ...primaryDwollaResults.customers,
+            ...await dwollaClient.getCustomersByIds([...new Set(linkedIds)])
+          ]
+        }
+      : primaryDwollaResults
+    
+    // Reverse lookup: companies pointing at Dwolla customers the text search missed
+    const hubspotResults = await attachReverseLinkedCompanies(hubspotClient, primaryHubspotResults, dwollaResults.customers)
+    
     // Correlate results
+    dataCorrelationService.setRules(await correlationRulesService.getRules())
     const correlatedData = dataCorrelationService.correlateSearchResults(
       hubspotResults.companies,
       hubspotResults.contacts,
       dwollaResults.customers,
-      []
+      dwollaResults.transfers
     )
     
     // Calculate summary
@@ -51,7 +72,9 @@ export async function performDirectSearch(query: string) {
       linkedAccounts: correlatedData.filter(d => d.correlation.isLinked).length,
       unlinkedHubSpot: correlatedData.filter(d => d.hubspot.company && !d.dwolla.customer).length,
       unlinkedDwolla: correlatedData.filter(d => !d.hubspot.company && d.dwolla.customer).length,
-      inconsistencyCount: correlatedData.reduce((count, d) => count + d.correlation.inconsistencies.length, 0)
+      inconsistencyCount: correlatedData.reduce((count, d) => count + d.correlation.inconsistencies.length, 0),
+      dwollaTruncated: dwollaResults.truncated,
+      dwollaTotal: dwollaResults.total
     }
     
     const duration = timer.end()
@@ -60,7 +83,8 @@ export async function performDirectSearch(query: string) {
     return {
       success: true,
       correlatedData,
-      summary
+      summary,
+      continuation: hubspotResults.next
     }
   } catch (error) {
     const duration = timer.end()
@@ -75,18 +99,39 @@ async function searchHubSpot(client: EnhancedHubSpotClient, query: string, query
       const response = await client.searchContacts(query)
       return {
         contacts: response.results || [],
-        companies: []
+        companies: [],
+        next: undefined
+      }
+    } else if (queryType === 'phone') {
+      const [response, company] = await Promise.all([
+        client.searchContactsByPhone(normalizePhoneNumber(query)!),
+        isHubSpotRecordIdLike(query) ? client.getCompanyById(query).catch(() => null) : Promise.resolve(null)
+      ])
+      return {
+        contacts: response.results || [],
+        companies: company ? [company] : [],
+        next: undefined
       }
+    } else if (queryType === 'hubspot_id') {
+      const company = await client.getCompanyById(query)
+      return {
+        contacts: [],
+        companies: [company],
+        next: undefined
+      }
+    } else if (queryType === 'dwolla_id') {
+      return { contacts: [], companies: [], next: undefined }
     } else {
       const results = await client.searchByName(query)
       return {
         contacts: results.contacts || [],
-        companies: results.companies || []
+        companies: results.companies || [],
+        next: results.next
       }
     }
   } catch (error) {
     logger.error('HubSpot search error', error as Error)
-    return { contacts: [], companies: [] }
+    return { contacts: [], companies: [], next: undefined }
   }
 }
 
@@ -95,16 +140,48 @@ async function searchDwolla(client: EnhancedDwollaClient, query: string, queryTy
     let response
     if (queryType === 'email') {
       response = await client.searchCustomers(query)
+    } else if (queryType === 'phone') {
+      response = await client.searchCustomersByPhone(normalizePhoneNumber(query)!)
+    } else if (queryType === 'dwolla_id') {
+      const { customers, transfers } = await client.lookupById(query)
+      return { customers, transfers, total: customers.length, truncated: false }
+    } else if (queryType === 'hubspot_id') {
+      return { customers: [], transfers: [], total: 0, truncated: false }
     } else {
       response = await client.searchCustomersByName(query)
     }
     
     return {
       customers: response._embedded?.customers || [],
-      transfers: []
+      transfers: [] as DwollaTransfer[],
+      total: response.total,
+      truncated: !!response.truncated
     }
   } catch (error) {
     logger.error('Dwolla search error', error as Error)
-    return { customers: [], transfers: [] }
+    return { customers: [], transfers: [], total: 0, truncated: false }
   }
-}
\ No newline at end of file
+}
+
+async function attachReverseLinkedCompanies(
+  client: EnhancedHubSpotClient,
+  results: Awaited<ReturnType<typeof searchHubSpot>>,
+  customers: DwollaCustomer[]
+) {
+  const unlinkedIds = dataCorrelationService.findUnlinkedDwollaIds(results.companies, customers)
+  if (unlinkedIds.length === 0) {
+    return results
+  }
+
+  try {
+    const companies = await client.searchCompaniesByDwollaIds(unlinkedIds)
+    const knownIds = new Set(results.companies.map(c => c.id))
+    return {
+      ...results,
+      companies: [...results.companies, ...companies.filter(c => !knownIds.has(c.id))]
+    }
+  } catch (error) {
+    logger.error('Reverse dwolla_id lookup error', error as Error)
+    return results
+  }
+}
@@ -0,0 +1,147 @@
+import { CorrelatedSearchResults, DwollaTransfer } from '../types'
+import { CorrelatedCustomerData } from './dataCorrelation'
+import { logger } from './logger'
+
+export type ExportFormat = 'csv' | 'json'
+
+// One correlated result, flattened for spreadsheets and audit attachments
+export interface ExportedCustomerRow {
+  hubspotCompanyId: string
+  hubspotCompanyName: string
+  hubspotOnboardingStatus: string
+  hubspotContactIds: string
+  hubspotContactEmails: string
+  dwollaCustomerId: string
+  dwollaCustomerName: string
+  dwollaEmail: string
+  dwollaStatus: string
+  linked: boolean
+  linkType: string
+  confidence: number
+  inconsistencyCount: number
+  inconsistencies: string
+  // Null unless the customer's transfers were loaded, so an unknown total is not exported as zero
+  transferCount: number | null
+  processedTotal: string | null
+  pendingTotal: string | null
+  failedTransferCount: number | null
+}
+
+const EXPORT_COLUMNS: (keyof ExportedCustomerRow)[] = [
+  'hubspotCompanyId',
+  'hubspotCompanyName',
+  'hubspotOnboardingStatus',
+  'hubspotContactIds',
+  'hubspotContactEmails',
+  'dwollaCustomerId',
+  'dwollaCustomerName',
+  'dwollaEmail',
+  'dwollaStatus',
+  'linked',
+  'linkType',
+  'confidence',
+  'inconsistencyCount',
+  'inconsistencies',
+  'transferCount',
+  'processedTotal',
+  'pendingTotal',
+  'failedTransferCount'
+]
+
+type CsvValue = string | number | boolean | undefined | null
+
+// Text cells hold values from HubSpot and Dwolla. Spreadsheets run a cell starting with one of
+// these as a formula, so such cells get a leading apostrophe; numbers are ours and left as they are.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCsvValue = (value: CsvValue): string => {
+  let text = value === undefined || value === null ? '' : String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n')
+}
+
+const sumTransfers = (transfers: DwollaTransfer[], status: DwollaTransfer['status']): string =>
+  transfers
+    .filter(transfer => transfer.status === status)
+    .reduce((total, transfer) => total + parseFloat(transfer.amount.value), 0)
+    .toFixed(2)
+
+export function flattenCorrelatedData(data: CorrelatedCustomerData): ExportedCustomerRow {
+  const { hubspot, dwolla, correlation } = data
+  const customer = dwolla.customer
+  const transfersLoaded = !!dwolla.transfersLoaded
+
+  return {
+    hubspotCompanyId: hubspot.company?.id || '',
+    hubspotCompanyName: hubspot.company?.properties.name || '',
+    hubspotOnboardingStatus: hubspot.company?.properties.onboarding_status || '',
+    hubspotContactIds: hubspot.contacts.map(contact => contact.id).join('; '),
+    hubspotContactEmails: hubspot.contacts.map(contact => contact.properties.email).filter(Boolean).join('; '),
+    dwollaCustomerId: customer?.id || '',
+    dwollaCustomerName: customer
+      ? customer.businessName || `${customer.firstName} ${customer.lastName}`.trim()
+      : '',
+    dwollaEmail: customer?.email || '',
+    dwollaStatus: customer?.status || '',
+    linked: correlation.isLinked,
+    linkType: correlation.linkType,
+    confidence: correlation.confidence,
+    inconsistencyCount: correlation.inconsistencies.length,
+    inconsistencies: correlation.inconsistencies.map(issue => issue.message).join('; '),
+    transferCount: transfersLoaded ? dwolla.transfers.length : null,
+    processedTotal: transfersLoaded ? sumTransfers(dwolla.transfers, 'processed') : null,
+    pendingTotal: transfersLoaded ? sumTransfers(dwolla.transfers, 'pending') : null,
+    failedTransferCount: transfersLoaded ? dwolla.transfers.filter(transfer => transfer.status === 'failed').length : null
+  }
+}
+
+export function toResultsCsv(results: CorrelatedSearchResults): string {
+  const rows = results.correlatedData.map(flattenCorrelatedData)
+  return toCsv(EXPORT_COLUMNS, rows.map(row => EXPORT_COLUMNS.map(column => row[column])))
+}
+
+export function toResultsJson(results: CorrelatedSearchResults, query: string): string {
+  return JSON.stringify({
+    query,
+    exportedAt: new Date().toISOString(),
+    summary: results.summary,
+    results: results.correlatedData.map(flattenCorrelatedData)
+  }, null, 2)
+}
+
+/**
+ * Save text through chrome.downloads. A data URL is used because a blob URL is
+ * revoked when the popup that created it closes, which can happen mid-download.
+ */
+export async function downloadFile(content: string, filename: string, mimeType: string): Promise<void> {
+  await chrome.downloads.download({
+    url: `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`,
+    filename,
+    conflictAction: 'uniquify'
+  })
+  logger.info('File exported', { filename, size: content.length })
+}
+
+/**
+ * Download the current result set, named after the query and date
+ */
+export async function exportSearchResults(
+  results: CorrelatedSearchResults,
+  query: string,
+  format: ExportFormat
+): Promise<void> {
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'results'
+  const filename = `customer-search-${slug}-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  if (format === 'csv') {
+    await downloadFile(toResultsCsv(results), filename, 'text/csv')
+  } else {
+    await downloadFile(toResultsJson(results, query), filename, 'application/json')
+  }
+}
@@ -0,0 +1,116 @@
+import { DwollaCustomer, DwollaTransfer, DwollaWebhookEvent } from '../types'
+import { EnhancedDwollaClient } from './apiEnhanced'
+import { logger } from './logger'
+
+// Topics worth interrupting the agent for, with the notification title
+export const ATTENTION_TOPICS: Record<string, string> = {
+  customer_suspended: 'Customer suspended',
+  customer_deactivated: 'Customer deactivated',
+  customer_reverification_needed: 'Customer needs reverification',
+  customer_transfer_failed: 'Transfer failed',
+  customer_bank_transfer_failed: 'Bank transfer failed',
+  customer_funding_source_removed: 'Funding source removed'
+}
+
+// Refreshed Dwolla data for a customer that received webhook events
+export interface CustomerLiveUpdate {
+  customerId: string
+  customer: DwollaCustomer
+  transfers: DwollaTransfer[]
+  events: DwollaWebhookEvent[]
+}
+
+interface TrackedCustomers {
+  customerIds: string[]
+  trackedAt: number
+}
+
+/**
+ * Follows Dwolla webhook events, received by the backend, for the customers the agent
+ * has on screen. Tracking lives in local storage, so the service worker's idle clear of
+ * session storage does not end it; it lapses once it has not been renewed for TRACKING_TTL.
+ */
+export class LiveUpdatesService {
+  private readonly TRACKED_KEY = 'live_customer_ids'
+  private readonly CURSOR_KEY = 'webhook_event_cursor'
+  private readonly TRACKING_TTL = 8 * 60 * 60 * 1000 // 8 hours
+
+  /**
+   * Replace the customers being followed
+   */
+  async trackCustomers(customerIds: string[]): Promise<void> {
+    try {
+      const tracked: TrackedCustomers = { customerIds: [...new Set(customerIds)], trackedAt: Date.now() }
+      await chrome.storage.local.set({ [this.TRACKED_KEY]: tracked })
+    } catch (error) {
+      logger.error('Failed to track customers for live updates', error as Error)
+    }
+  }
+
+  // Lapsed tracking also drops the cursor, so events from while it lapsed are not replayed
+  async getTrackedCustomerIds(): Promise<string[]> {
+    const result = await chrome.storage.local.get(this.TRACKED_KEY)
+    const tracked: TrackedCustomers | undefined = result[this.TRACKED_KEY]
+    if (!tracked) {
+      return []
+    }
+
+    if (Date.now() - tracked.trackedAt > this.TRACKING_TTL) {
+      await chrome.storage.local.remove([this.TRACKED_KEY, this.CURSOR_KEY])
+      return []
+    }
+
+    return tracked.customerIds
+  }
+
+  /**
+   * Fetch events received since the last poll and refresh the customers they affect.
+   * The first poll after tracking starts only records the cursor, so older events are not replayed.
+   */
+  async poll(): Promise<CustomerLiveUpdate[]> {
+    const customerIds = await this.getTrackedCustomerIds()
+    if (customerIds.length === 0) {
+      return []
+    }
+
+    const stored = await chrome.storage.local.get(this.CURSOR_KEY)
+    const cursor: number | undefined = stored[this.CURSOR_KEY]
+
+    const client = new EnhancedDwollaClient()
+    const response = await client.getWebhookEvents(cursor ?? 0, customerIds)
+    await chrome.storage.local.set({ [this.CURSOR_KEY]: response.cursor })
+
+    if (cursor === undefined) {
+      return []
+    }
+
+    const eventsByCustomer = new Map<string, DwollaWebhookEvent[]>()
+    for (const event of response._embedded.events) {
+      if (!event.customerId) continue
+      eventsByCustomer.set(event.customerId, [...(eventsByCustomer.get(event.customerId) || []), event])
+    }
+
+    const updates: CustomerLiveUpdate[] = []
+    for (const [customerId, events] of eventsByCustomer) {
+      try {
+        const [customer, transfers] = await Promise.all([
+          client.getCustomerById(customerId),
+          client.getCustomerTransfers(customerId)
+        ])
+        updates.push({
+          customerId,
+          customer,
+          transfers: transfers._embedded?.transfers || [],
+          events
+        })
+      } catch (error) {
+        logger.error('Failed to refresh customer after webhook events', error as Error, { customerId })
+      }
+    }
+
+    return updates
+  }
+}
+
+// Export singleton instance
+export const liveUpdatesService = new LiveUpdatesService()
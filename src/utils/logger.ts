@@ -1,5 +1,6 @@
 // Comprehensive logging system for Chrome extension
 import { env } from '../config/env'
+import { normalizePhoneNumber, isDwollaId, isHubSpotRecordId } from './validation'
 
 export enum LogLevel {
   DEBUG = 0,
@@ -106,7 +107,7 @@ export class LogSanitizer {
   private isSensitiveKey(key: string): boolean {
     const sensitiveKeys = [
       'password', 'token', 'secret', 'key', 'authorization',
-      'access_token', 'refresh_token', 'client_secret'
+      'access_token', 'refresh_token', 'refresh_handle', 'client_secret'
     ]
     return sensitiveKeys.some(sensitive => 
       key.toLowerCase().includes(sensitive)
@@ -334,8 +335,13 @@ export function generateRequestId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-export function detectQueryType(query: string): 'email' | 'name' | 'business' | 'unknown' {
+export function detectQueryType(
+  query: string
+): 'email' | 'phone' | 'dwolla_id' | 'hubspot_id' | 'name' | 'business' | 'unknown' {
   if (query.includes('@')) return 'email'
+  if (isDwollaId(query)) return 'dwolla_id'
+  if (isHubSpotRecordId(query)) return 'hubspot_id'
+  if (normalizePhoneNumber(query)) return 'phone'
   if (query.includes('inc') || query.includes('llc') || query.includes('corp')) return 'business'
   if (query.split(' ').length >= 2) return 'name'
   return 'unknown'
@@ -8,8 +8,21 @@ export interface ActionTemplate {
   icon: string
   category: 'copy' | 'link' | 'support' | 'verification' | 'transfer'
   conditions: (data: CorrelatedCustomerData) => boolean
-  execute: (data: CorrelatedCustomerData) => Promise<ActionResult>
+  // `input` is the agent's edited text when the confirmation offers an editable field
+  execute: (data: CorrelatedCustomerData, input?: string) => Promise<ActionResult>
   variant: 'primary' | 'secondary' | 'warning' | 'danger' | 'success'
+  // Ask the agent before running actions that change data
+  confirm?: (data: CorrelatedCustomerData) => ActionConfirmation
+  // How the card should look if the action succeeds, shown while it runs
+  optimisticUpdate?: (data: CorrelatedCustomerData) => CorrelatedCustomerData
+}
+
+export interface ActionConfirmation {
+  title: string
+  message: string
+  confirmLabel: string
+  // Pre-filled text the agent can edit before the action runs
+  editableText?: string
 }
 
 export interface ActionResult {
@@ -36,7 +49,7 @@ export class QuickActionsService {
   /**
    * Execute a specific action
    */
-  async executeAction(actionId: string, data: CorrelatedCustomerData): Promise<ActionResult> {
+  async executeAction(actionId: string, data: CorrelatedCustomerData, input?: string): Promise<ActionResult> {
     const template = this.templates.find(t => t.id === actionId)
     if (!template) {
       return {
@@ -47,7 +60,7 @@ export class QuickActionsService {
 
     try {
       logger.info('Executing quick action', { actionId, category: template.category })
-      const result = await template.execute(data)
+      const result = await template.execute(data, input)
       
       if (result.success) {
         logger.info('Quick action completed', { actionId, category: template.category })
@@ -300,46 +313,166 @@ export class QuickActionsService {
       }
     })
 
-    // Suggest Account Link
+    // Link Accounts by writing dwolla_id to the HubSpot company
     this.registerAction({
-      id: 'suggest-link',
-      name: 'Copy Link Instructions',
-      description: 'Copy account linking instructions',
+      id: 'link-accounts',
+      name: 'Link Accounts',
+      description: 'Set the Dwolla ID on the HubSpot company',
       icon: '🔗',
       category: 'link',
       variant: 'primary',
-      conditions: (data) => !data.correlation.isLinked && !!(data.hubspot.company && data.dwolla.customer),
-      execute: async (data) => {
-        const hubspotName = data.hubspot.company!.properties.name
+      conditions: (data) => !!(data.hubspot.company && data.dwolla.customer) && !data.hubspot.company!.properties.dwolla_id,
+      confirm: (data) => {
         const dwollaName = data.dwolla.customer!.businessName || 
           `${data.dwolla.customer!.firstName} ${data.dwolla.customer!.lastName}`
+        return {
+          title: 'Link accounts?',
+          message: `This sets dwolla_id on HubSpot company "${data.hubspot.company!.properties.name}" to ${data.dwolla.customer!.id} (${dwollaName}). You can undo this until the session ends.`,
+          confirmLabel: 'Link accounts'
+        }
+      },
+      optimisticUpdate: (data) => ({
+        ...data,
+        hubspot: {
+          ...data.hubspot,
+          company: {
+            ...data.hubspot.company!,
+            properties: { ...data.hubspot.company!.properties, dwolla_id: data.dwolla.customer!.id }
+          }
+        },
+        correlation: {
+          ...data.correlation,
+          isLinked: true,
+          linkType: 'dwolla_id',
+          confidence: 100,
+          inconsistencies: data.correlation.inconsistencies.filter(issue => issue.field !== 'dwolla_id')
+        }
+      }),
+      execute: async (data) => {
+        const response = await chrome.runtime.sendMessage({
+          type: 'LINK_ACCOUNTS',
+          companyId: data.hubspot.company!.id,
+          dwollaId: data.dwolla.customer!.id
+        })
+        
+        if (!response?.success) {
+          return {
+            success: false,
+            error: response?.error || 'Failed to link accounts'
+          }
+        }
+        
+        return {
+          success: true,
+          message: 'Accounts linked',
+          data: { auditId: response.auditId }
+        }
+      }
+    })
+
+    // Log a note on the HubSpot timeline
+    this.registerAction({
+      id: 'create-hubspot-note',
+      name: 'Add HubSpot Note',
+      description: 'Create a note on the HubSpot company and contacts',
+      icon: '📝',
+      category: 'support',
+      variant: 'secondary',
+      conditions: (data) => !!data.hubspot.company || data.hubspot.contacts.length > 0,
+      confirm: (data) => ({
+        title: 'Add note to HubSpot',
+        message: `The note will be added to ${this.describeNoteTargets(data)}. Edit it before saving.`,
+        confirmLabel: 'Create note',
+        editableText: this.generateCustomerSummary(data)
+      }),
+      execute: async (data, input) => {
+        const body = (input ?? this.generateCustomerSummary(data)).trim()
+        if (!body) {
+          return {
+            success: false,
+            error: 'Note cannot be empty'
+          }
+        }
         
-        const instructions = [
-          'Account Linking Instructions:',
-          '',
-          `HubSpot Company: ${hubspotName}`,
-          `HubSpot ID: ${data.hubspot.company!.id}`,
-          '',
-          `Dwolla Customer: ${dwollaName}`,
-          `Dwolla ID: ${data.dwolla.customer!.id}`,
-          '',
-          'To link these accounts:',
-          `1. Open the HubSpot company record`,
-          `2. Add custom field "dwolla_id" with value: ${data.dwolla.customer!.id}`,
-          `3. Save the record`,
-          '',
-          'This will enable automatic data correlation in future searches.'
-        ].join('\n')
+        const response = await chrome.runtime.sendMessage({
+          type: 'CREATE_NOTE',
+          body,
+          companyIds: data.hubspot.company ? [data.hubspot.company.id] : [],
+          contactIds: data.hubspot.contacts.map(contact => contact.id)
+        })
         
-        await navigator.clipboard.writeText(instructions)
+        if (!response?.success) {
+          return {
+            success: false,
+            error: response?.error || 'Failed to create note'
+          }
+        }
         
         return {
           success: true,
-          message: 'Linking instructions copied',
-          data: { instructions }
+          message: 'Note added',
+          data: { noteId: response.note.id }
         }
       }
     })
+
+    // Open a support ticket for failed or returned transfers
+    this.registerAction({
+      id: 'open-support-ticket',
+      name: 'Open Support Ticket',
+      description: 'Create a HubSpot ticket for failed transfers',
+      icon: '🎫',
+      category: 'transfer',
+      variant: 'warning',
+      conditions: (data) => !!data.hubspot.company && data.dwolla.transfers.some(t => t.status === 'failed'),
+      confirm: (data) => {
+        const failedCount = data.dwolla.transfers.filter(t => t.status === 'failed').length
+        return {
+          title: 'Open a support ticket?',
+          message: `This creates a HubSpot ticket on "${data.hubspot.company!.properties.name}" listing ${failedCount} failed transfer${failedCount !== 1 ? 's' : ''} with their amounts and failure codes.`,
+          confirmLabel: 'Create ticket'
+        }
+      },
+      execute: async (data) => {
+        const customerName = data.dwolla.customer?.businessName ||
+          `${data.dwolla.customer?.firstName || ''} ${data.dwolla.customer?.lastName || ''}`.trim() ||
+          data.hubspot.company!.properties.name
+        
+        const response = await chrome.runtime.sendMessage({
+          type: 'CREATE_TICKET',
+          companyId: data.hubspot.company!.id,
+          customerName,
+          transfers: data.dwolla.transfers.filter(t => t.status === 'failed')
+        })
+        
+        if (!response?.success) {
+          return {
+            success: false,
+            error: response?.error || 'Failed to create ticket'
+          }
+        }
+        
+        return {
+          success: true,
+          message: 'Ticket created',
+          data: { ticketId: response.ticket.id, ticketUrl: response.ticketUrl }
+        }
+      }
+    })
+  }
+
+  /**
+   * Describe the records a note will be attached to
+   */
+  private describeNoteTargets(data: CorrelatedCustomerData): string {
+    const targets: string[] = []
+    if (data.hubspot.company) {
+      targets.push(`"${data.hubspot.company.properties.name}"`)
+    }
+    if (data.hubspot.contacts.length > 0) {
+      targets.push(`${data.hubspot.contacts.length} contact${data.hubspot.contacts.length !== 1 ? 's' : ''}`)
+    }
+    return targets.join(' and ')
   }
 
   /**
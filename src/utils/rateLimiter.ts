@@ -121,16 +121,47 @@ export class RateLimiter {
     }
   }
   
+  /**
+   * Adopt the budget a server reports, so this side stops sending before the server
+   * starts rejecting. Only ever tightens the local limit.
+   */
+  async syncWithServer(provider: string, remaining: number, resetTime?: number): Promise<void> {
+    const config = this.configs.get(provider)
+    if (!config) {
+      return
+    }
+    
+    const now = Date.now()
+    let state = this.states.get(provider)
+    if (!state || now > state.resetTime) {
+      state = { count: 0, resetTime: now + config.windowMs }
+      this.states.set(provider, state)
+    }
+    
+    state.count = Math.max(state.count, config.maxRequests - remaining)
+    if (remaining === 0 && resetTime) {
+      state.resetTime = Math.max(state.resetTime, resetTime)
+    }
+    await this.saveStates()
+    
+    logger.debug('Rate limit synced with server', {
+      provider,
+      remaining,
+      localRemaining: Math.max(0, config.maxRequests - state.count),
+      resetTime: state.resetTime
+    })
+  }
+  
   async getRemainingRequests(provider: string): Promise<number> {
     const config = this.configs.get(provider)
     const state = this.states.get(provider)
     
-    if (!config || !state) {
+    if (!config) {
       return 0
     }
     
     const now = Date.now()
-    if (now > state.resetTime) {
+    if (!state || now > state.resetTime) {
       return config.maxRequests
     }
     
@@ -3,7 +3,7 @@ import { logger } from './logger'
 export interface SearchHistoryItem {
   id: string
   query: string
-  queryType: 'email' | 'name' | 'business' | 'phone'
+  queryType: 'email' | 'name' | 'business' | 'phone' | 'dwolla_id' | 'hubspot_id'
   timestamp: number
   resultCount: number
   linkedAccounts: number
@@ -0,0 +1,51 @@
+import { CorrelatedSearchResults } from '../types'
+import { CorrelatedCustomerData } from './dataCorrelation'
+import { logger } from './logger'
+
+export interface SidePanelState {
+  query: string
+  results: CorrelatedSearchResults | null
+  pinned: CorrelatedCustomerData | null
+}
+
+interface StoredSidePanelState extends SidePanelState {
+  savedAt: number
+}
+
+/**
+ * What the side panel shows. Held in local storage so it survives the panel being
+ * closed and reopened, or reloaded by Chrome, and the service worker's idle clear of
+ * session storage; it is discarded once it has not been saved for STATE_TTL.
+ */
+export class SidePanelStateService {
+  private readonly STORAGE_KEY = 'side_panel_state'
+  private readonly STATE_TTL = 8 * 60 * 60 * 1000 // 8 hours
+
+  async getState(): Promise<SidePanelState | null> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY)
+      const stored: StoredSidePanelState | undefined = result[this.STORAGE_KEY]
+      if (!stored || Date.now() - stored.savedAt > this.STATE_TTL) {
+        return null
+      }
+
+      const { savedAt, ...state } = stored
+      return state
+    } catch (error) {
+      logger.error('Failed to get side panel state', error as Error)
+      return null
+    }
+  }
+
+  async saveState(state: SidePanelState): Promise<void> {
+    try {
+      const stored: StoredSidePanelState = { ...state, savedAt: Date.now() }
+      await chrome.storage.local.set({ [this.STORAGE_KEY]: stored })
+    } catch (error) {
+      logger.error('Failed to save side panel state', error as Error)
+    }
+  }
+}
+
+// Export singleton instance
+export const sidePanelStateService = new SidePanelStateService()
@@ -8,6 +8,15 @@ export interface ValidationResult {
 // Email validation regex
 const EMAIL_REGEX = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/
 
+// Phone-shaped input: digits with an optional leading + and common separators
+const PHONE_REGEX = /^\+?[\d\s().-]{7,20}$/
+
+// Dwolla customer and transfer IDs
+const UUID_REGEX = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i
+
+// HubSpot record IDs are plain integers
+const RECORD_ID_REGEX = /^\d{1,20}$/
+
 // Search query validation
 export function validateSearchQuery(query: string): ValidationResult {
   // Trim whitespace
@@ -38,7 +47,7 @@ export function validateSearchQuery(query: string): ValidationResult {
   }
 
   // Check for valid characters (alphanumeric, spaces, email characters)
-  const validCharsRegex = /^[a-zA-Z0-9\s@.\-_&',]+$/
+  const validCharsRegex = /^[a-zA-Z0-9\s@.\-_&',+()]+$/
   if (!validCharsRegex.test(trimmed)) {
     return {
       isValid: false,
@@ -77,9 +86,58 @@ export function sanitizeSearchQuery(query: string): string {
     .substring(0, 100) // Enforce max length
 }
 
+// Dwolla resource ID (customer or transfer)
+export function isDwollaId(query: string): boolean {
+  return UUID_REGEX.test(query.trim())
+}
+
+// Bare digits are a HubSpot record ID unless they also form a valid phone number;
+// callers that care about that overlap should check isHubSpotRecordIdLike instead
+export function isHubSpotRecordId(query: string): boolean {
+  return isHubSpotRecordIdLike(query) && !normalizePhoneNumber(query)
+}
+
+export function isHubSpotRecordIdLike(query: string): boolean {
+  return RECORD_ID_REGEX.test(query.trim())
+}
+
+// Check whether input is shaped like a phone number (before normalization)
+export function looksLikePhoneNumber(query: string): boolean {
+  return PHONE_REGEX.test(query.trim())
+}
+
+// Normalize a phone number to E.164; numbers without a country code are assumed to be NANP (+1)
+export function normalizePhoneNumber(query: string): string | null {
+  const trimmed = query.trim()
+  if (!looksLikePhoneNumber(trimmed)) {
+    return null
+  }
+
+  const digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+
+  if (digits.length === 10) {
+    return `+1${digits}`
+  }
+
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return `+${digits}`
+  }
+
+  return null
+}
+
+// National significant number for NANP numbers (drops the +1), E.164 digits otherwise
+export function getNationalPhoneNumber(e164: string): string {
+  return e164.startsWith('+1') && e164.length === 12 ? e164.slice(2) : e164.replace(/\D/g, '')
+}
+
 // Detect query type with validation
 export function detectAndValidateQueryType(query: string): {
-  type: 'email' | 'name' | 'business' | 'unknown'
+  type: 'email' | 'phone' | 'dwolla_id' | 'hubspot_id' | 'name' | 'business' | 'unknown'
   isValid: boolean
   error?: string
 } {
@@ -98,6 +156,29 @@ export function detectAndValidateQueryType(query: string): {
     }
   }
 
+  // Dwolla customer/transfer ID detection
+  if (isDwollaId(trimmed)) {
+    return { type: 'dwolla_id', isValid: true }
+  }
+
+  // HubSpot record ID detection
+  if (isHubSpotRecordId(trimmed)) {
+    return { type: 'hubspot_id', isValid: true }
+  }
+
+  // Phone number detection and validation
+  if (looksLikePhoneNumber(trimmed)) {
+    if (normalizePhoneNumber(trimmed)) {
+      return { type: 'phone', isValid: true }
+    } else {
+      return {
+        type: 'phone',
+        isValid: false,
+        error: 'Please enter a valid phone number, e.g. +1 555 123 4567'
+      }
+    }
+  }
+
   // Business name detection
   const businessIndicators = ['inc', 'llc', 'corp', 'ltd', 'co', 'company']
   const lowerQuery = trimmed.toLowerCase()
@@ -123,9 +204,7 @@ export function detectAndValidateQueryType(query: string): {
 // Validate customer ID
 export function validateCustomerId(id: string): ValidationResult {
   // UUID format validation
-  const uuidRegex = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i
-  
-  if (!uuidRegex.test(id)) {
+  if (!UUID_REGEX.test(id)) {
     return {
       isValid: false,
       error: 'Invalid customer ID format'
@@ -0,0 +1,279 @@
+import { DwollaCustomer, DwollaTransfer, DwollaWebhookEventResponse } from '../types'
+import { EnhancedDwollaClient } from './apiEnhanced'
+import { rateLimiter } from './rateLimiter'
+import { logger } from './logger'
+
+export interface WatchedCustomer {
+  customerId: string
+  name: string
+  status: DwollaCustomer['status']
+  // Status of the most recent transfers as of the last check, by transfer ID
+  transferStatuses: Record<string, DwollaTransfer['status']>
+  addedAt: number
+  lastCheckedAt: number
+}
+
+export interface WatchlistChange {
+  id: string
+  customerId: string
+  customerName: string
+  description: string
+  detectedAt: number
+  seen: boolean
+}
+
+const getCustomerName = (customer: DwollaCustomer): string =>
+  customer.businessName || `${customer.firstName} ${customer.lastName}`.trim() || customer.email
+
+/**
+ * Customers the agent watches. The service worker checks them on an alarm and
+ * records status and transfer changes, which drive notifications and the action badge.
+ */
+export class WatchlistService {
+  private readonly STORAGE_KEY = 'watchlist'
+  private readonly CHANGES_KEY = 'watchlist_changes'
+  private readonly CURSOR_KEY = 'watchlist_event_cursor'
+  private readonly PAUSED_KEY = 'watchlist_paused_at'
+  // Re-fetching a customer costs two Dwolla requests, so a check never costs more than 20
+  private readonly MAX_WATCHED = 10
+  // Share of the hourly Dwolla budget kept for the agent's own searches
+  private readonly RESERVED_REQUESTS = 25
+  private readonly MAX_CHANGES = 100
+  private readonly TRANSFERS_CHECKED = 10
+
+  async getWatchlist(): Promise<WatchedCustomer[]> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY)
+      return result[this.STORAGE_KEY] || []
+    } catch (error) {
+      logger.error('Failed to get watchlist', error as Error)
+      return []
+    }
+  }
+
+  /**
+   * Start watching a customer, using what is on screen as the baseline
+   */
+  async watch(customer: DwollaCustomer, transfers: DwollaTransfer[]): Promise<WatchedCustomer> {
+    const watchlist = await this.getWatchlist()
+    const others = watchlist.filter(item => item.customerId !== customer.id)
+    if (others.length >= this.MAX_WATCHED) {
+      throw new Error(`You can watch up to ${this.MAX_WATCHED} customers. Remove one to add another.`)
+    }
+
+    const watched: WatchedCustomer = {
+      customerId: customer.id,
+      name: getCustomerName(customer),
+      status: customer.status,
+      transferStatuses: this.getTransferStatuses(transfers),
+      addedAt: Date.now(),
+      lastCheckedAt: Date.now()
+    }
+
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: [watched, ...others] })
+    logger.info('Customer added to watchlist', { customerId: customer.id })
+    return watched
+  }
+
+  async unwatch(customerId: string): Promise<void> {
+    const watchlist = await this.getWatchlist()
+    await chrome.storage.local.set({
+      [this.STORAGE_KEY]: watchlist.filter(item => item.customerId !== customerId)
+    })
+    logger.info('Customer removed from watchlist', { customerId })
+  }
+
+  /**
+   * Record what changed for watched customers since the last check. Each check re-fetches
+   * as many customers as the budget above RESERVED_REQUESTS allows, those with webhook
+   * events first and then the longest unchecked, so every customer is still checked when
+   * no webhooks arrive. Events are kept for the next check while the budget leaves any
+   * of their customers unchecked.
+   */
+  async checkForChanges(): Promise<WatchlistChange[]> {
+    const watchlist = await this.getWatchlist()
+    if (watchlist.length === 0) {
+      return []
+    }
+
+    const client = new EnhancedDwollaClient()
+    const stored = await chrome.storage.local.get(this.CURSOR_KEY)
+    const cursor: number | undefined = stored[this.CURSOR_KEY]
+
+    // Events cost no Dwolla requests but only set priority, so checks go on without them
+    let events: DwollaWebhookEventResponse | null = null
+    try {
+      events = await client.getWebhookEvents(cursor ?? 0, watchlist.map(item => item.customerId))
+    } catch (error) {
+      logger.warn('Watchlist webhook events unavailable', { error: (error as Error).message })
+    }
+
+    // Events from before the first check predate the baseline, which is what was on screen when watching started
+    const affected = new Set(cursor === undefined ? [] : (events?._embedded.events || [])
+      .map(event => event.customerId)
+      .filter((id): id is string => !!id))
+
+    const remaining = Math.min(
+      await rateLimiter.getRemainingRequests('dwolla'),
+      await rateLimiter.getRemainingRequests('global')
+    )
+    const affordable = Math.max(0, Math.floor((remaining - this.RESERVED_REQUESTS) / 2))
+    const toCheck = new Set(
+      [...watchlist]
+        .sort((a, b) =>
+          Number(affected.has(b.customerId)) - Number(affected.has(a.customerId)) ||
+          a.lastCheckedAt - b.lastCheckedAt
+        )
+        .slice(0, affordable)
+        .map(item => item.customerId)
+    )
+    if (toCheck.size === 0) {
+      logger.info('Watchlist check skipped to preserve the Dwolla rate limit', { remaining })
+      return []
+    }
+
+    const changes: WatchlistChange[] = []
+    const updated: WatchedCustomer[] = []
+
+    for (const watched of watchlist) {
+      if (!toCheck.has(watched.customerId)) {
+        updated.push(watched)
+        continue
+      }
+
+      try {
+        const [customer, transferResponse] = await Promise.all([
+          client.getCustomerById(watched.customerId),
+          client.getCustomerTransfers(watched.customerId, this.TRANSFERS_CHECKED)
+        ])
+        const transfers = transferResponse._embedded?.transfers || []
+
+        this.describeChanges(watched, customer, transfers).forEach(description => {
+          changes.push({
+            id: this.generateId(),
+            customerId: watched.customerId,
+            customerName: watched.name,
+            description,
+            detectedAt: Date.now(),
+            seen: false
+          })
+        })
+
+        updated.push({
+          ...watched,
+          status: customer.status,
+          transferStatuses: this.getTransferStatuses(transfers),
+          lastCheckedAt: Date.now()
+        })
+      } catch (error) {
+        logger.error('Failed to check watched customer', error as Error, { customerId: watched.customerId })
+        updated.push(watched)
+      }
+    }
+
+    // Customers removed while the check was running stay removed
+    const current = new Set((await this.getWatchlist()).map(item => item.customerId))
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: updated.filter(item => current.has(item.customerId)) })
+
+    if (events && [...affected].every(customerId => toCheck.has(customerId))) {
+      await chrome.storage.local.set({ [this.CURSOR_KEY]: events.cursor })
+    }
+
+    if (changes.length > 0) {
+      const existing = await this.getChanges()
+      await chrome.storage.local.set({
+        [this.CHANGES_KEY]: [...changes, ...existing].slice(0, this.MAX_CHANGES)
+      })
+    }
+
+    return changes
+  }
+
+  /**
+   * When background checks stopped for lack of a signed-in user, or null while they run
+   */
+  async getPausedAt(): Promise<number | null> {
+    try {
+      const result = await chrome.storage.local.get(this.PAUSED_KEY)
+      return result[this.PAUSED_KEY] || null
+    } catch (error) {
+      logger.error('Failed to get watchlist pause state', error as Error)
+      return null
+    }
+  }
+
+  async setPaused(paused: boolean): Promise<void> {
+    if (!paused) {
+      await chrome.storage.local.remove(this.PAUSED_KEY)
+    } else if (!(await this.getPausedAt())) {
+      await chrome.storage.local.set({ [this.PAUSED_KEY]: Date.now() })
+    }
+  }
+
+  /**
+   * Get recorded changes, newest first
+   */
+  async getChanges(): Promise<WatchlistChange[]> {
+    try {
+      const result = await chrome.storage.local.get(this.CHANGES_KEY)
+      return result[this.CHANGES_KEY] || []
+    } catch (error) {
+      logger.error('Failed to get watchlist changes', error as Error)
+      return []
+    }
+  }
+
+  async markChangesSeen(): Promise<void> {
+    const changes = await this.getChanges()
+    await chrome.storage.local.set({
+      [this.CHANGES_KEY]: changes.map(change => ({ ...change, seen: true }))
+    })
+    await this.updateBadge()
+  }
+
+  async clearChanges(): Promise<void> {
+    await chrome.storage.local.remove(this.CHANGES_KEY)
+    await this.updateBadge()
+  }
+
+  /**
+   * Show the number of unseen changes on the extension icon
+   */
+  async updateBadge(): Promise<void> {
+    const unseen = (await this.getChanges()).filter(change => !change.seen).length
+    await chrome.action.setBadgeBackgroundColor({ color: '#dc2626' })
+    await chrome.action.setBadgeText({ text: unseen > 0 ? String(unseen) : '' })
+  }
+
+  private describeChanges(watched: WatchedCustomer, customer: DwollaCustomer, transfers: DwollaTransfer[]): string[] {
+    const descriptions: string[] = []
+
+    if (customer.status !== watched.status) {
+      descriptions.push(`Status changed from ${watched.status} to ${customer.status}`)
+    }
+
+    transfers.forEach(transfer => {
+      const previousStatus = watched.transferStatuses[transfer.id]
+      if (previousStatus && previousStatus !== transfer.status) {
+        descriptions.push(`Transfer of $${transfer.amount.value} changed from ${previousStatus} to ${transfer.status}`)
+      } else if (!previousStatus && transfer.status === 'failed') {
+        descriptions.push(`New transfer of $${transfer.amount.value} failed`)
+      }
+    })
+
+    return descriptions
+  }
+
+  private getTransferStatuses(transfers: DwollaTransfer[]): Record<string, DwollaTransfer['status']> {
+    return Object.fromEntries(
+      transfers.slice(0, this.TRANSFERS_CHECKED).map(transfer => [transfer.id, transfer.status])
+    )
+  }
+
+  private generateId(): string {
+    return `change_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+}
+
+// Export singleton instance
+export const watchlistService = new WatchlistService()
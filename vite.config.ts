@@ -10,6 +10,11 @@ export default defineConfig({
   ],
   build: {
     rollupOptions: {
+      // Extension pages opened in a tab rather than referenced from the manifest
+      input: {
+        bulk: 'src/bulk/index.html',
+        dashboard: 'src/dashboard/index.html',
+      },
       output: {
         // Disable module preloading for service workers
         manualChunks: undefined,